@@ -0,0 +1,138 @@
+import type { AutoProxySettings, FailedRequest, ProxyRule } from './types/common'
+import generalSettingsService from '~general-settings-service'
+import proxyRuleService from '~proxy-rule-service'
+import { STORAGE_KEYS } from '~types/common'
+import { classifyFailure } from '~utils/error-classifier'
+import { t } from '~utils/i18n'
+import { sessionStorage } from '~utils/storage'
+import { generateId } from '~utils/util'
+
+// Notification ids are this prefix followed by the id of the added rule
+const NOTIFICATION_PREFIX = 'auto-proxy:'
+
+/**
+ * Opt-in mode adding a proxy rule for a pattern once it failed often enough
+ * Failure times are kept in session storage so the count survives worker restarts
+ */
+class AutoProxyService {
+    // Failures are counted one at a time, requests often fail in bursts
+    private queue: Promise<unknown> = Promise.resolve()
+
+    handleFailure(request: FailedRequest): Promise<ProxyRule | undefined> {
+        const result = this.queue.then(() => this.countFailure(request))
+        this.queue = result.catch(() => undefined)
+        return result
+    }
+
+    /**
+     * Count a failure of a monitored request and add a rule for its pattern when
+     * the threshold is reached within the window
+     * Failures a proxy is unlikely to fix are not counted, nor are failures outside
+     * the rules proxy mode, where a rule changes nothing
+     * @returns The added rule, undefined when none was added
+     */
+    private async countFailure(request: FailedRequest): Promise<ProxyRule | undefined> {
+        const { autoProxy, proxyEnabled, proxyMode } = await generalSettingsService.getSettings()
+        if (!autoProxy.enabled || !proxyEnabled || proxyMode !== 'rules') {
+            return undefined
+        }
+        if (classifyFailure(request).likelihood === 'low' || this.isExcluded(request.hostname, autoProxy)) {
+            return undefined
+        }
+
+        const now = Date.now()
+        const windowStart = now - autoProxy.windowMinutes * 60 * 1000
+        const failures = (await sessionStorage.get<Record<string, number[]>>(STORAGE_KEYS.AUTO_PROXY_FAILURES)) || {}
+        for (const [pattern, times] of Object.entries(failures)) {
+            failures[pattern] = times.filter(time => time >= windowStart)
+            if (failures[pattern].length === 0) {
+                delete failures[pattern]
+            }
+        }
+        const times = [...(failures[request.hostname] || []), now]
+        if (times.length < autoProxy.failureThreshold) {
+            failures[request.hostname] = times
+            await sessionStorage.set(STORAGE_KEYS.AUTO_PROXY_FAILURES, failures)
+            return undefined
+        }
+        delete failures[request.hostname]
+        await sessionStorage.set(STORAGE_KEYS.AUTO_PROXY_FAILURES, failures)
+
+        const rule: ProxyRule = {
+            id: generateId(),
+            pattern: request.hostname,
+            origin: 'auto',
+            createdAt: now
+        }
+        const rules = await proxyRuleService.addRule(rule)
+        if (!rules.some(r => r.id === rule.id)) {
+            // A rule for the pattern exists already
+            return undefined
+        }
+        console.log(`🤖 Auto-proxy rule added after ${times.length} failures:`, rule.pattern)
+        this.notify(rule, times.length)
+        return rule
+    }
+
+    /**
+     * Check a pattern against the excluded domains, `*.a.example.com` is excluded by `example.com`
+     */
+    private isExcluded(pattern: string, autoProxy: AutoProxySettings): boolean {
+        const host = pattern.replace(/^\*\./, '').toLowerCase()
+        return autoProxy.excludedDomains.some(domain => {
+            const excluded = domain.replace(/^\*\./, '').toLowerCase()
+            return host === excluded || host.endsWith(`.${excluded}`)
+        })
+    }
+
+    private notify(rule: ProxyRule, failureCount: number) {
+        chrome.notifications.create(NOTIFICATION_PREFIX + rule.id, {
+            type: 'basic',
+            iconUrl: chrome.runtime.getURL(chrome.runtime.getManifest().icons?.['128'] || ''),
+            title: t('autoProxyNotificationTitle'),
+            message: t('autoProxyNotificationMessage', {
+                pattern: rule.pattern,
+                count: failureCount.toString()
+            }),
+            buttons: [{ title: t('undo') }]
+        })
+    }
+
+    /**
+     * Remove an automatically added rule and exclude its domain from now on
+     * @returns false when the rule is gone or wasn't added automatically
+     */
+    async undoRule(ruleId: string): Promise<boolean> {
+        const rule = (await proxyRuleService.getRules()).find(r => r.id === ruleId)
+        if (!rule || rule.origin !== 'auto') {
+            return false
+        }
+        await proxyRuleService.deleteRule(ruleId)
+        const settings = await generalSettingsService.getSettings()
+        const domain = rule.pattern.replace(/^\*\./, '')
+        if (!settings.autoProxy.excludedDomains.includes(domain)) {
+            await generalSettingsService.saveSettings({
+                ...settings,
+                autoProxy: {
+                    ...settings.autoProxy,
+                    excludedDomains: [...settings.autoProxy.excludedDomains, domain]
+                }
+            })
+        }
+        chrome.notifications.clear(NOTIFICATION_PREFIX + ruleId)
+        return true
+    }
+
+    /**
+     * Rule id of an auto-proxy notification
+     * @returns undefined for other notifications
+     */
+    getNotificationRuleId(notificationId: string): string | undefined {
+        return notificationId.startsWith(NOTIFICATION_PREFIX)
+            ? notificationId.substring(NOTIFICATION_PREFIX.length)
+            : undefined
+    }
+}
+
+const autoProxyService = new AutoProxyService()
+export default autoProxyService
@@ -8,17 +8,16 @@
 import proxyRuleService from "~proxy-rule-service"
 import generalSettingsService from "~general-settings-service"
 import requestMonitorService from "~request-monitor-service"
+import proxyAuthService from "~proxy-auth-service"
+import subscriptionService from "~subscription-service"
+import autoProxyService from "~auto-proxy-service"
+import proxyProbeService from "~proxy-probe-service"
+import tabProxyService from "~tab-proxy-service"
 import { generateId } from "~utils/util"
+import { t } from "~utils/i18n"
+import { getRuleExpiry, type RuleDuration } from "~utils/rule-expiry"
 import { STORAGE_KEYS } from './types/common'
-import type { FailedRequest } from './types/common'
-
-const IGNORED_ERRORS = [
-    'net::ERR_ABORTED',
-    'net::ERR_INTERNET_DISCONNECTED',
-    'net::ERR_CONNECTION_ABORTED',
-    'net::ERR_BLOCKED_BY_CLIENT',
-    'net::ERR_CACHE_MISS',
-]
+import type { FailedRequest, GeneralSettings, PatternGranularity } from './types/common'
 
 function isLocalhost(hostname: string): boolean {
     return hostname === 'localhost' ||
@@ -27,11 +26,16 @@ function isLocalhost(hostname: string): boolean {
 }
 
 async function recordFailedRequest(
-    pendingRequest: { url: string; currentTabHostname: string },
+    pendingRequest: { url: string; currentTabHostname: string; tabId: number },
     details: chrome.webRequest.WebResponseErrorDetails
 ) {
-    const isInRules = await proxyRuleService.isInRules(details.url)
-    if (isInRules) {
+    // Proxied requests, requests the user sends direct on purpose and requests of a
+    // proxied tab are not suggestions
+    const [matchingRule, tabOverride] = await Promise.all([
+        proxyRuleService.findMatchingRule(details.url),
+        tabProxyService.getOverride(pendingRequest.tabId)
+    ])
+    if (matchingRule || tabOverride) {
         return
     }
     const hostname = proxyRuleService.formatPattern(pendingRequest.url)
@@ -39,11 +43,65 @@ async function recordFailedRequest(
         url: pendingRequest.url,
         hostname: hostname,
         currentTabHostname: pendingRequest.currentTabHostname,
+        tabId: pendingRequest.tabId,
         error: details.error,
         timestamp: Date.now()
     }
     await requestMonitorService.addFailedRequest(failedRequest)
     console.log("❌ Request failed:", failedRequest)
+    await handleAutoProxy(failedRequest)
+}
+
+/**
+ * Let the auto-proxy mode count a failure, a rule it adds takes effect right away
+ */
+async function handleAutoProxy(failedRequest: FailedRequest) {
+    const rule = await autoProxyService.handleFailure(failedRequest)
+    if (rule) {
+        await requestMonitorService.removeFailedHostnames([rule.pattern])
+        await requestMonitorService.configureSelectiveProxy()
+    }
+}
+
+// Hosts of a "Proxy this tab" page arrive in bursts, the PAC script is regenerated once per burst
+const TAB_PROXY_UPDATE_DELAY_MS = 200
+let tabProxyUpdateTimer: ReturnType<typeof setTimeout> | undefined
+
+function scheduleTabProxyUpdate() {
+    if (tabProxyUpdateTimer) {
+        return
+    }
+    tabProxyUpdateTimer = setTimeout(() => {
+        tabProxyUpdateTimer = undefined
+        initializeProxy()
+    }, TAB_PROXY_UPDATE_DELAY_MS)
+}
+
+/**
+ * Add proxy rules for hostnames, from the popup or the "add current site" shortcut
+ * The hostnames are no longer suggested and the rules take effect right away
+ */
+async function addProxyRules(hostnames: string[], duration: RuleDuration = 'forever') {
+    const expiresAt = getRuleExpiry(duration)
+    const proxyRules = hostnames.map(hostname => ({
+        id: generateId(),
+        pattern: hostname,
+        expiresAt
+    }))
+    await proxyRuleService.addRules(proxyRules)
+    await requestMonitorService.removeFailedHostnames(hostnames)
+    await requestMonitorService.configureSelectiveProxy()
+}
+
+/**
+ * Change the proxy switch or mode, from the popup or a keyboard shortcut
+ */
+async function saveProxySettings(changes: Pick<Partial<GeneralSettings>, 'proxyEnabled' | 'proxyMode'>): Promise<GeneralSettings> {
+    const settings = await generalSettingsService.getSettings()
+    const updatedSettings = { ...settings, ...changes }
+    await generalSettingsService.saveSettings(updatedSettings)
+    await requestMonitorService.configureSelectiveProxy()
+    return updatedSettings
 }
 
 /**
@@ -69,6 +127,13 @@ chrome.webRequest.onBeforeRequest.addListener(
             return
         }
 
+        requestMonitorService.addRequestOrigin(details.tabId, details.url)
+        tabProxyService.observeRequest(details.tabId, hostname).then((added) => {
+            if (added) {
+                scheduleTabProxyUpdate()
+            }
+        })
+
         // Sync record to avoid race with onCompleted/onErrorOccurred
         requestMonitorService.addPendingRequest({
             requestId: details.requestId,
@@ -85,8 +150,12 @@ chrome.webRequest.onBeforeRequest.addListener(
                 return
             }
 
-            proxyRuleService.isInRules(details.url).then((isInRules) => {
-                if (isInRules) {
+            // Requests of a proxied tab aren't suggestions either
+            Promise.all([
+                proxyRuleService.findMatchingRule(details.url),
+                tabProxyService.getOverride(details.tabId)
+            ]).then(([matchingRule, tabOverride]) => {
+                if (matchingRule || tabOverride) {
                     requestMonitorService.removePendingRequest(details.requestId)
                     return
                 }
@@ -119,18 +188,37 @@ chrome.webRequest.onBeforeRequest.addListener(
     ["requestBody"]
 )
 
+/**
+ * Answer proxy authentication challenges with the credentials of the matching profile
+ * Registered for all traffic so authenticated proxies keep working outside the test dialog
+ */
+chrome.webRequest.onAuthRequired.addListener(
+    (details, callback) => {
+        proxyAuthService.handleAuthRequired(details).then(callback).catch((error) => {
+            console.error('Error answering proxy authentication:', error)
+            callback({})
+        })
+    },
+    { urls: ["<all_urls>"] },
+    ["asyncBlocking"]
+)
+
 /**
  * Monitor request completion for performance tracking
  * Logs when requests are completed with status codes and measures response time
  */
 chrome.webRequest.onCompleted.addListener(
     (details) => {
-        const pendingRequest = requestMonitorService.getPendingRequest(details.requestId)
-        generalSettingsService.getSettings().then(async generalSettings => {
+        proxyAuthService.completeRequest(details.requestId, details.statusCode !== 407).catch((error) => {
+            console.error('Error completing proxy authentication:', error)
+        })
+        const handleCompleted = async () => {
+            const pendingRequest = await requestMonitorService.getPendingRequest(details.requestId)
+            const generalSettings = await generalSettingsService.getSettings()
             if (!(pendingRequest && generalSettings)) {
                 return
             }
-            if (!generalSettings.proxyEnabled) {
+            if (!(await requestMonitorService.isMonitoringEnabled())) {
                 return
             }
 
@@ -138,7 +226,8 @@ chrome.webRequest.onCompleted.addListener(
             if (!currentTabHostname && pendingRequest.tabId) {
                 currentTabHostname = await requestMonitorService.resolveTabHostname(pendingRequest.tabId)
             }
-            if (!currentTabHostname) {
+            // The tab may have been proxied after the request started
+            if (!currentTabHostname || await tabProxyService.getOverride(pendingRequest.tabId)) {
                 return
             }
 
@@ -149,14 +238,18 @@ chrome.webRequest.onCompleted.addListener(
                     url: pendingRequest.url,
                     hostname: hostname,
                     currentTabHostname: currentTabHostname,
+                    tabId: pendingRequest.tabId,
                     responseTime: responseTime,
                     timestamp: Date.now(),
                     status: details.statusCode
                 }
                 await requestMonitorService.addFailedRequest(failedRequest)
                 console.log("⚠️ Slow request detected:", failedRequest)
+                await handleAutoProxy(failedRequest)
             }
-        }).finally(() => {
+        }
+
+        handleCompleted().finally(() => {
             requestMonitorService.removePendingRequest(details.requestId)
         })
     },
@@ -168,18 +261,21 @@ chrome.webRequest.onCompleted.addListener(
  */
 chrome.webRequest.onErrorOccurred.addListener(
     (details) => {
-        if (IGNORED_ERRORS.includes(details.error)) {
-            console.warn("⚠️ Request aborted, not logging:", {
-                url: details.url,
-                requestId: details.requestId
-            })
-            requestMonitorService.removePendingRequest(details.requestId)
-            return
-        }
-
-        const pendingRequest = requestMonitorService.getPendingRequest(details.requestId)
+        proxyAuthService.completeRequest(details.requestId, false).catch((error) => {
+            console.error('Error completing proxy authentication:', error)
+        })
 
         const handleError = async () => {
+            const generalSettings = await generalSettingsService.getSettings()
+            if (generalSettings.ignoredErrors.includes(details.error)) {
+                console.warn("⚠️ Ignored request error, not logging:", {
+                    url: details.url,
+                    error: details.error,
+                    requestId: details.requestId
+                })
+                return
+            }
+            const pendingRequest = await requestMonitorService.getPendingRequest(details.requestId)
             if (!(await requestMonitorService.isMonitoringEnabled())) {
                 return
             }
@@ -196,7 +292,7 @@ chrome.webRequest.onErrorOccurred.addListener(
             }
 
             await recordFailedRequest(
-                { url, currentTabHostname },
+                { url, currentTabHostname, tabId },
                 details
             )
         }
@@ -221,32 +317,38 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
                 console.error('Error parsing sender tab URL:', error)
             }
         }
+        // The popup names the active tab, content in a tab is that tab
+        const tabId: number | undefined = request.tabId ?? sender.tab?.id
         const action = request.action;
         console.log("Received message action:", action, "from sender:", sender, "with parameters:", request);
         switch (action) {
             case 'getFailedRequests':
-                const failedRequests: FailedRequest[] = requestMonitorService.getFailedRequestsCurrentTabHostname(currentTabHostname);
-                console.log("Returning failed requests for hostname:", currentTabHostname, failedRequests);
-                sendResponse({ failedRequests: failedRequests });
+                // 'site' rolls up all tabs showing the current tab's site
+                const failedRequests: FailedRequest[] = request.scope === 'site'
+                    ? await requestMonitorService.getFailedRequestsForSite(currentTabHostname)
+                    : tabId === undefined ? [] : await requestMonitorService.getFailedRequestsForTab(tabId);
+                console.log("Returning failed requests for tab:", tabId, currentTabHostname, failedRequests);
+                // The shown hosts are verified in the background, the popup reloads with the results
+                proxyProbeService.probeFailedRequests(failedRequests);
+                sendResponse({ failedRequests: failedRequests, probeResults: await proxyProbeService.getResults() });
                 break;
+            case 'probeFailedRequest': {
+                const probeResult = await proxyProbeService.probeFailedRequest(request.failedRequest, true);
+                sendResponse({ success: !!probeResult, probeResult });
+                break;
+            }
             case 'clearFailedRequests':
-                requestMonitorService.removeFailedRequestsForHostname(currentTabHostname);
+                if (request.scope === 'site') {
+                    await requestMonitorService.removeFailedRequestsForSite(currentTabHostname);
+                } else if (tabId !== undefined) {
+                    await requestMonitorService.removeFailedRequestsForTab(tabId);
+                }
                 await requestMonitorService.updateBadgeForActiveTab();
                 sendResponse({ success: true });
                 break;
             case 'addProxyRules':
-                const { hostnames } = request;
-                const proxyRules = []
-                for (const hostname of hostnames) {
-                    const proxyRule = {
-                        id: generateId(),
-                        pattern: hostname
-                    };
-                    proxyRules.push(proxyRule);
-                }
-                await proxyRuleService.addRules(proxyRules);
-                requestMonitorService.updateFailedRequestsForCurrentTab(currentTabHostname, hostnames);
-                await requestMonitorService.configureSelectiveProxy();
+                // Temporary rules from the popup carry a duration
+                await addProxyRules(request.hostnames, request.duration);
                 sendResponse({ success: true });
                 break;
             case 'updateBadge':
@@ -257,17 +359,63 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
                 await requestMonitorService.configureSelectiveProxy();
                 sendResponse({ success: true });
                 break;
+            case 'refreshSubscription': {
+                const subscription = await subscriptionService.refreshSubscription(request.subscriptionId);
+                sendResponse({ success: !!subscription && !subscription.lastError, subscription });
+                break;
+            }
+            case 'getTabRoute': {
+                // The page's own route, then one per other origin it requested
+                const tab = tabId === undefined ? undefined : await chrome.tabs.get(tabId).catch(() => undefined);
+                if (tabId === undefined || !tab?.url || !/^https?:/.test(tab.url)) {
+                    sendResponse({ route: undefined, origins: [] });
+                    break;
+                }
+                const pageOrigin = new URL(tab.url).origin;
+                const origins = (await requestMonitorService.getRequestOrigins(tabId)).filter(origin => origin !== pageOrigin);
+                const [route, ...originRoutes] = await requestMonitorService.getRoutes([tab.url, ...origins.map(origin => `${origin}/`)]);
+                sendResponse({
+                    url: tab.url,
+                    route,
+                    origins: origins.map((origin, index) => ({ origin, route: originRoutes[index] }))
+                });
+                break;
+            }
+            case 'getTabProxy': {
+                const tabOverride = tabId === undefined ? undefined : await tabProxyService.getOverride(tabId);
+                sendResponse({ enabled: !!tabOverride, hosts: tabOverride?.hosts || [] });
+                break;
+            }
+            case 'setTabProxy': {
+                if (tabId === undefined || (request.enabled && !currentTabHostname)) {
+                    sendResponse({ success: false });
+                    break;
+                }
+                if (request.enabled) {
+                    await tabProxyService.enable(tabId, currentTabHostname);
+                } else {
+                    await tabProxyService.disable(tabId);
+                }
+                await requestMonitorService.configureSelectiveProxy();
+                sendResponse({ success: true });
+                break;
+            }
+            case 'undoAutoProxyRule': {
+                const undone = await autoProxyService.undoRule(request.ruleId);
+                if (undone) {
+                    await requestMonitorService.configureSelectiveProxy();
+                }
+                sendResponse({ success: undone });
+                break;
+            }
+            case 'getProxyAuthFailures':
+                sendResponse({ failures: await proxyAuthService.getFailures() });
+                break;
             case 'getProxyEnabled':
                 sendResponse({ proxyEnabled: await requestMonitorService.isProxyEnabled() });
                 break;
             case 'setProxyEnabled': {
-                const settings = await generalSettingsService.getSettings();
-                const updatedSettings = {
-                    ...settings,
-                    proxyEnabled: request.enabled === true,
-                };
-                await generalSettingsService.saveSettings(updatedSettings);
-                await requestMonitorService.configureSelectiveProxy();
+                const updatedSettings = await saveProxySettings({ proxyEnabled: request.enabled === true });
                 sendResponse({ success: true, proxyEnabled: updatedSettings.proxyEnabled });
                 break;
             }
@@ -296,6 +444,30 @@ chrome.tabs.onUpdated.addListener(async (_tabId, changeInfo, tab) => {
     }
 })
 
+/**
+ * Start a fresh failure list when a tab navigates to another page
+ */
+chrome.webNavigation.onCommitted.addListener(async (details) => {
+    if (details.frameId !== 0) {
+        return
+    }
+    await requestMonitorService.handleNavigationCommitted(details.tabId, details.url, details.timeStamp)
+    await requestMonitorService.updateBadgeForActiveTab()
+    if (await tabProxyService.handleNavigation(details.tabId, details.url)) {
+        await requestMonitorService.configureSelectiveProxy()
+    }
+})
+
+/**
+ * Drop the failures and the proxy override of closed tabs
+ */
+chrome.tabs.onRemoved.addListener(async (tabId) => {
+    await requestMonitorService.removeTab(tabId)
+    if (await tabProxyService.disable(tabId)) {
+        await requestMonitorService.configureSelectiveProxy()
+    }
+})
+
 /**
  * Initialize proxy on install, browser startup, and service worker load
  */
@@ -305,21 +477,247 @@ function initializeProxy() {
     })
 }
 
+/**
+ * Schedule subscription refreshes and fetch lists that are due
+ */
+function initializeSubscriptions() {
+    subscriptionService.syncAlarms()
+        .then(() => subscriptionService.refreshDueSubscriptions())
+        .catch((error) => {
+            console.error('Error initializing subscriptions:', error)
+        })
+}
+
+/**
+ * Remove rules that expired while the browser was closed and schedule the next expiry
+ */
+function initializeRuleExpiry() {
+    proxyRuleService.removeExpiredRules()
+        .then(() => proxyRuleService.syncExpiryAlarm())
+        .catch((error) => {
+            console.error('Error initializing rule expiry:', error)
+        })
+}
+
+/**
+ * Read back the monitor state kept while the service worker was stopped
+ * and show its failure count on the badge again
+ */
+function restoreMonitorState() {
+    requestMonitorService.restoreState()
+        .then(() => requestMonitorService.updateBadgeForActiveTab())
+        .catch((error) => {
+            console.error('Error restoring monitor state:', error)
+        })
+}
+
+// Context menu actions, the proxy and direct actions get one child item per granularity
+const CONTEXT_MENU_ACTIONS = [
+    { id: 'proxySite', title: 'menuProxySite', contexts: ['page'], granular: true },
+    { id: 'proxyLink', title: 'menuProxyLink', contexts: ['link'], granular: true },
+    { id: 'bypassSite', title: 'menuBypassSite', contexts: ['page'], granular: true },
+    { id: 'removeSiteRule', title: 'menuRemoveSiteRule', contexts: ['page'], granular: false }
+] as const
+
+const CONTEXT_MENU_GRANULARITIES: { granularity: PatternGranularity; title: string }[] = [
+    { granularity: 'parent', title: 'menuGranularityParent' },
+    { granularity: 'host', title: 'menuGranularityHost' },
+    { granularity: 'domain', title: 'menuGranularityDomain' }
+]
+
+/**
+ * Create the context menu, menu item ids are `<action>` or `<action>:<granularity>`
+ */
+function initializeContextMenus() {
+    chrome.contextMenus.removeAll(() => {
+        for (const action of CONTEXT_MENU_ACTIONS) {
+            const contexts = [...action.contexts]
+            chrome.contextMenus.create({ id: action.id, title: t(action.title), contexts })
+            if (!action.granular) {
+                continue
+            }
+            for (const { granularity, title } of CONTEXT_MENU_GRANULARITIES) {
+                chrome.contextMenus.create({
+                    id: `${action.id}:${granularity}`,
+                    parentId: action.id,
+                    title: t(title),
+                    contexts
+                })
+            }
+        }
+    })
+}
+
+/**
+ * Add or remove a rule for the page or link the menu was opened on, effective right away
+ */
+async function handleContextMenuClick(info: chrome.contextMenus.OnClickData, tab?: chrome.tabs.Tab) {
+    const [action, granularity] = String(info.menuItemId).split(':') as [string, PatternGranularity | undefined]
+    const url = action === 'proxyLink' ? info.linkUrl : info.pageUrl || tab?.url
+    if (!url || !/^https?:/.test(url)) {
+        requestMonitorService.flashBadge('!', '#FF9800')
+        return
+    }
+    switch (action) {
+        case 'proxySite':
+        case 'proxyLink': {
+            const pattern = await proxyRuleService.addRuleForUrl(url, granularity || 'parent', 'proxy')
+            await requestMonitorService.removeFailedHostnames([pattern])
+            requestMonitorService.flashBadge('+', '#4CAF50')
+            break
+        }
+        case 'bypassSite':
+            await proxyRuleService.addRuleForUrl(url, granularity || 'parent', 'bypass')
+            requestMonitorService.flashBadge(t('badgeModeDirect'), '#9E9E9E')
+            break
+        case 'removeSiteRule': {
+            const rule = await proxyRuleService.removeRuleForUrl(url)
+            requestMonitorService.flashBadge(rule ? '-' : '!', rule ? '#9E9E9E' : '#FF9800')
+            break
+        }
+        default:
+            console.warn('Unknown context menu item:', info.menuItemId)
+            return
+    }
+    await requestMonitorService.configureSelectiveProxy()
+}
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+    handleContextMenuClick(info, tab).catch((error) => {
+        console.error('Error handling context menu click:', info.menuItemId, error)
+    })
+})
+
 chrome.runtime.onInstalled.addListener(() => {
     initializeProxy()
+    initializeSubscriptions()
+    initializeRuleExpiry()
+    initializeContextMenus()
 })
 
 chrome.runtime.onStartup.addListener(() => {
     initializeProxy()
+    initializeSubscriptions()
+    initializeRuleExpiry()
+})
+
+/**
+ * Undo button of the notification shown when the auto-proxy mode adds a rule
+ */
+chrome.notifications.onButtonClicked.addListener(async (notificationId) => {
+    const ruleId = autoProxyService.getNotificationRuleId(notificationId)
+    if (ruleId && await autoProxyService.undoRule(ruleId)) {
+        await requestMonitorService.configureSelectiveProxy()
+    }
+})
+
+// Modes the "cycle proxy mode" shortcut steps through
+const SHORTCUT_MODES = ['direct', 'rules', 'global'] as const
+// pac: the configured PAC URL or script mode, turned back on
+type ShortcutMode = typeof SHORTCUT_MODES[number] | 'pac'
+
+const SHORTCUT_MODE_BADGES: Record<ShortcutMode, { text: string; color: string }> = {
+    direct: { text: 'badgeModeDirect', color: '#9E9E9E' },
+    rules: { text: 'badgeModeRules', color: '#1976D2' },
+    global: { text: 'badgeModeGlobal', color: '#4CAF50' },
+    pac: { text: 'badgeModePac', color: '#1976D2' }
+}
+
+/**
+ * Mode the "cycle proxy mode" shortcut switches to
+ * In the PAC modes it only turns the proxy on and off, so the PAC setup isn't lost
+ */
+function getNextShortcutMode(settings: GeneralSettings): ShortcutMode {
+    if (settings.proxyMode === 'pac_url' || settings.proxyMode === 'pac_script') {
+        return settings.proxyEnabled ? 'direct' : 'pac'
+    }
+    const current = !settings.proxyEnabled ? 'direct' : settings.proxyMode === 'global' ? 'global' : 'rules'
+    return SHORTCUT_MODES[(SHORTCUT_MODES.indexOf(current) + 1) % SHORTCUT_MODES.length]
+}
+
+/**
+ * Keyboard shortcuts, confirmed on the badge since no page is open
+ */
+async function handleCommand(command: string, tab?: chrome.tabs.Tab) {
+    switch (command) {
+        case 'toggle-proxy': {
+            const settings = await saveProxySettings({ proxyEnabled: !(await requestMonitorService.isProxyEnabled()) })
+            requestMonitorService.flashBadge(
+                t(settings.proxyEnabled ? 'badgeProxyOn' : 'badgeProxyOff'),
+                settings.proxyEnabled ? '#4CAF50' : '#9E9E9E'
+            )
+            break
+        }
+        case 'cycle-proxy-mode': {
+            const next = getNextShortcutMode(await generalSettingsService.getSettings())
+            await saveProxySettings(
+                next === 'direct' ? { proxyEnabled: false }
+                    : next === 'pac' ? { proxyEnabled: true }
+                        : { proxyEnabled: true, proxyMode: next }
+            )
+            requestMonitorService.flashBadge(t(SHORTCUT_MODE_BADGES[next].text), SHORTCUT_MODE_BADGES[next].color)
+            break
+        }
+        case 'add-current-site': {
+            const url = (tab || await requestMonitorService.getActiveTab())?.url
+            if (!url || !/^https?:/.test(url)) {
+                requestMonitorService.flashBadge('!', '#FF9800')
+                break
+            }
+            await addProxyRules([proxyRuleService.formatPattern(url)])
+            requestMonitorService.flashBadge('+', '#4CAF50')
+            break
+        }
+        default:
+            console.warn('Unknown command:', command)
+    }
+}
+
+chrome.commands.onCommand.addListener((command, tab) => {
+    handleCommand(command, tab).catch((error) => {
+        console.error('Error handling command:', command, error)
+    })
+})
+
+/**
+ * Expired temporary rules stop routing right away, other alarms refresh subscriptions
+ */
+async function handleAlarm(alarm: chrome.alarms.Alarm) {
+    if (await proxyRuleService.handleAlarm(alarm)) {
+        await requestMonitorService.configureSelectiveProxy()
+        return
+    }
+    await subscriptionService.handleAlarm(alarm)
+}
+
+chrome.alarms.onAlarm.addListener((alarm) => {
+    handleAlarm(alarm).catch((error) => {
+        console.error('Error handling alarm:', alarm.name, error)
+    })
 })
 
 chrome.storage.onChanged.addListener((changes, area) => {
     if (area === 'sync' && Object.keys(changes).some(k => k.startsWith(STORAGE_KEYS.PROXY_RULES))) {
         initializeProxy()
+        proxyRuleService.syncExpiryAlarm().catch((error) => {
+            console.error('Error scheduling rule expiry:', error)
+        })
     }
     if (area === 'local' && changes[STORAGE_KEYS.GENERAL_SETTINGS]) {
+        // Edited credentials deserve a fresh attempt
+        proxyAuthService.handleSettingsChange(changes[STORAGE_KEYS.GENERAL_SETTINGS]).catch((error) => {
+            console.error('Error updating proxy authentication failures:', error)
+        })
         initializeProxy()
     }
+    if (area === 'local' && Object.keys(changes).some(k => subscriptionService.isSubscriptionKey(k))) {
+        initializeProxy()
+        // New or re-enabled subscriptions are due right away
+        if (changes[STORAGE_KEYS.RULE_SUBSCRIPTIONS]) {
+            initializeSubscriptions()
+        }
+    }
 })
 
 initializeProxy()
+restoreMonitorState()
@@ -0,0 +1,148 @@
+import { ExpandLess, ExpandMore } from "@mui/icons-material"
+import { Box, Button, Chip, Collapse, Typography } from "@mui/material"
+import { useState } from "react"
+
+import type { RequestRoute } from "~types/common"
+import { t } from "~utils/i18n"
+
+export interface OriginRoute {
+    origin: string
+    route: RequestRoute
+}
+
+interface TabRoutePanelProps {
+    url: string
+    route: RequestRoute
+    // Other origins the page requested, in order of their first request
+    origins: OriginRoute[]
+}
+
+const ROUTE_LABEL_KEYS: Record<RequestRoute["type"], string> = {
+    proxy: "routeProxied",
+    direct: "routeDirect",
+    pac: "routePac"
+}
+
+const ROUTE_COLORS: Record<
+    RequestRoute["type"],
+    "success" | "default" | "info"
+> = {
+    proxy: "success",
+    direct: "default",
+    pac: "info"
+}
+
+// Why a request takes its route
+function describeRoute(route: RequestRoute): string {
+    if (route.type === "pac") {
+        return t("routeByPacFile")
+    }
+    if (route.type === "direct") {
+        return route.rule
+            ? t("routeByBypassRule", { pattern: route.rule.pattern })
+            : t("routeNoRule")
+    }
+    const profile = route.profileName || ""
+    if (route.tabOverride) {
+        return t("routeByTabOverride", { profile })
+    }
+    return route.rule
+        ? t("routeByRule", { pattern: route.rule.pattern, profile })
+        : t("routeByGlobalMode", { profile })
+}
+
+function RouteChip({ route }: { route: RequestRoute }) {
+    return (
+        <Chip
+            label={t(ROUTE_LABEL_KEYS[route.type])}
+            size="small"
+            color={ROUTE_COLORS[route.type]}
+            title={route.directive}
+        />
+    )
+}
+
+/**
+ * How the active tab's page and the other origins it loaded are routed
+ */
+function TabRoutePanel(props: TabRoutePanelProps) {
+    const { url, route, origins } = props
+    const [expanded, setExpanded] = useState(false)
+    const proxiedCount = origins.filter((o) => o.route.type === "proxy").length
+
+    return (
+        <Box sx={{ px: 2, py: 1, borderBottom: 1, borderColor: "divider" }}>
+            <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+                <Typography
+                    variant="subtitle2"
+                    noWrap
+                    sx={{ flex: 1, fontWeight: "bold" }}>
+                    {new URL(url).hostname}
+                </Typography>
+                <RouteChip route={route} />
+            </Box>
+            <Typography
+                variant="caption"
+                color="text.secondary"
+                component="div">
+                {describeRoute(route)}
+            </Typography>
+            {route.directive && (
+                <Typography
+                    variant="caption"
+                    color="text.secondary"
+                    component="div"
+                    sx={{ fontFamily: "monospace" }}>
+                    {route.directive}
+                </Typography>
+            )}
+            {origins.length > 0 && (
+                <>
+                    <Button
+                        size="small"
+                        onClick={() => setExpanded(!expanded)}
+                        endIcon={expanded ? <ExpandLess /> : <ExpandMore />}
+                        sx={{ mt: 0.5, px: 0 }}>
+                        {t("routeOrigins", {
+                            count: origins.length.toString(),
+                            proxied: proxiedCount.toString()
+                        })}
+                    </Button>
+                    <Collapse in={expanded}>
+                        <Box sx={{ maxHeight: 200, overflowY: "auto" }}>
+                            {origins.map(({ origin, route }) => (
+                                <Box
+                                    key={origin}
+                                    sx={{
+                                        display: "flex",
+                                        alignItems: "center",
+                                        gap: 1,
+                                        py: 0.25
+                                    }}>
+                                    <Typography
+                                        variant="body2"
+                                        noWrap
+                                        sx={{ flex: 1 }}
+                                        title={describeRoute(route)}>
+                                        {new URL(origin).host}
+                                    </Typography>
+                                    {route.rule && (
+                                        <Typography
+                                            variant="caption"
+                                            color="text.secondary"
+                                            noWrap>
+                                            {route.rule.pattern}
+                                        </Typography>
+                                    )}
+                                    <RouteChip route={route} />
+                                </Box>
+                            ))}
+                        </Box>
+                    </Collapse>
+                </>
+            )}
+        </Box>
+    )
+}
+
+export default TabRoutePanel
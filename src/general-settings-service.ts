@@ -1,28 +1,59 @@
-import type { GeneralSettings } from '~types/common'
-import { STORAGE_KEYS } from "~types/common"
+import type { GeneralSettings, ProxyProfile } from '~types/common'
+import { DEFAULT_PROXY_PROFILE_ID, STORAGE_KEYS } from "~types/common"
+import { DEFAULT_IGNORED_ERRORS } from "~utils/error-classifier"
 import {
     localStorage
 } from "~utils/storage"
 
 const DEFAULT_SETTINGS: GeneralSettings = {
     responseTimeThreshold: 5000,
-    proxyServerAddress: "",
-    proxyServerPort: 8080,
-    proxyServerScheme: "http",
-    proxyUsername: "",
-    proxyPassword: "",
+    proxyProfiles: [],
+    defaultProxyProfileId: DEFAULT_PROXY_PROFILE_ID,
     proxyEnabled: false,
+    proxyMode: 'rules',
+    pacUrl: '',
+    pacScript: '',
+    ignoredErrors: DEFAULT_IGNORED_ERRORS,
+    autoProxy: {
+        enabled: false,
+        failureThreshold: 3,
+        windowMinutes: 10,
+        excludedDomains: []
+    },
 }
 
+/**
+ * Settings written before proxy profiles existed kept a single proxy server
+ * directly on the settings object
+ */
+interface LegacyProxyServerSettings {
+    proxyServerAddress?: string
+    proxyServerPort?: number
+    proxyServerScheme?: string
+    proxyUsername?: string
+    proxyPassword?: string
+}
+
+type StoredGeneralSettings = Partial<GeneralSettings> & LegacyProxyServerSettings
+
 class GeneralSettingsService {
     async getSettings(): Promise<GeneralSettings> {
-        const settings = await localStorage.get<GeneralSettings>(
+        let settings = await localStorage.get<StoredGeneralSettings>(
             STORAGE_KEYS.GENERAL_SETTINGS
         )
+        if (settings && !Array.isArray(settings.proxyProfiles)) {
+            settings = await this.migrateLegacyProxyServer(settings)
+        }
+        const proxyProfiles = settings?.proxyProfiles || []
         return {
             ...DEFAULT_SETTINGS,
             ...settings,
+            proxyProfiles,
+            defaultProxyProfileId: proxyProfiles.some(p => p.id === settings?.defaultProxyProfileId)
+                ? settings.defaultProxyProfileId
+                : proxyProfiles[0]?.id || DEFAULT_PROXY_PROFILE_ID,
             proxyEnabled: settings?.proxyEnabled === true,
+            autoProxy: { ...DEFAULT_SETTINGS.autoProxy, ...settings?.autoProxy },
         }
     }
 
@@ -32,6 +63,100 @@ class GeneralSettingsService {
             settings
         )
     }
+
+    /**
+     * Take over the settings another page or the background changed in storage
+     * Keyboard shortcuts and the popup save settings while the options page keeps its own copy,
+     * fields the change didn't touch keep their value so unsaved edits of other fields stay.
+     * autoProxy is compared field by field: undoing an automatic rule only adds an excluded domain
+     * @param current - Settings as the page shows them
+     * @param stored - Settings read after the change
+     * @param change - The storage change of the settings key, values are JSON encoded
+     */
+    applyStorageChange(current: GeneralSettings, stored: GeneralSettings, change: chrome.storage.StorageChange): GeneralSettings {
+        // Missing fields were the defaults before the change
+        const parse = (value: unknown): GeneralSettings => {
+            const settings: StoredGeneralSettings = typeof value === 'string' ? JSON.parse(value) : {}
+            return {
+                ...DEFAULT_SETTINGS,
+                ...settings,
+                autoProxy: { ...DEFAULT_SETTINGS.autoProxy, ...settings?.autoProxy }
+            }
+        }
+        const oldValue = parse(change.oldValue)
+        const newValue = parse(change.newValue)
+        const changedFields = <T extends object>(target: T, source: T, before: T, after: T): T => {
+            const updated = { ...target }
+            for (const key of Object.keys(source) as (keyof T)[]) {
+                if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+                    updated[key] = source[key]
+                }
+            }
+            return updated
+        }
+        return {
+            ...changedFields(current, stored, oldValue, newValue),
+            autoProxy: changedFields(current.autoProxy, stored.autoProxy, oldValue.autoProxy, newValue.autoProxy)
+        }
+    }
+
+    /**
+     * Whether a profile can route requests: it or one of its failover servers has an address and a port
+     * Rules of profiles without a server are left out of the PAC script and connect directly
+     */
+    hasProxyServer(profile?: ProxyProfile): boolean {
+        return !!profile && [profile, ...(profile.fallbacks || [])].some(endpoint => endpoint.address && endpoint.port)
+    }
+
+    /**
+     * Resolve the profile a rule routes through
+     * Rules without a profile, or whose profile was deleted, use the default profile
+     */
+    getProfileForRule(settings: GeneralSettings, proxyProfileId?: string): ProxyProfile | undefined {
+        const profiles = settings.proxyProfiles
+        return profiles.find(p => p.id === proxyProfileId)
+            || profiles.find(p => p.id === settings.defaultProxyProfileId)
+            || profiles[0]
+    }
+
+    /**
+     * Move the single legacy proxy server into a profile named "Default"
+     * The migrated settings are written back so the migration runs only once
+     */
+    private async migrateLegacyProxyServer(settings: StoredGeneralSettings): Promise<StoredGeneralSettings> {
+        const {
+            proxyServerAddress,
+            proxyServerPort,
+            proxyServerScheme,
+            proxyUsername,
+            proxyPassword,
+            ...rest
+        } = settings
+        const proxyProfiles: ProxyProfile[] = []
+        if (proxyServerAddress) {
+            proxyProfiles.push({
+                id: DEFAULT_PROXY_PROFILE_ID,
+                name: "Default",
+                scheme: proxyServerScheme || "http",
+                address: proxyServerAddress,
+                port: proxyServerPort || 8080,
+                username: proxyUsername || "",
+                password: proxyPassword || "",
+            })
+        }
+        const migrated: StoredGeneralSettings = {
+            ...rest,
+            proxyProfiles,
+            defaultProxyProfileId: DEFAULT_PROXY_PROFILE_ID,
+        }
+        try {
+            await localStorage.set(STORAGE_KEYS.GENERAL_SETTINGS, migrated)
+            console.log(`✅ Migrated legacy proxy server settings to ${proxyProfiles.length} profile(s)`)
+        } catch (error) {
+            console.error('Error migrating legacy proxy server settings:', error)
+        }
+        return migrated
+    }
 }
 const generalSettingsService = new GeneralSettingsService();
 export default generalSettingsService;
\ No newline at end of file
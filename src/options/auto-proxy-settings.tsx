@@ -0,0 +1,152 @@
+import { Add } from "@mui/icons-material"
+import {
+    Box,
+    Button,
+    Chip,
+    FormControlLabel,
+    Switch,
+    TextField,
+    Typography
+} from "@mui/material"
+import { useState } from "react"
+
+import type { AutoProxySettings as AutoProxySettingsValue } from "../types/common"
+import { t } from "../utils/i18n"
+
+interface AutoProxySettingsProps {
+    autoProxy: AutoProxySettingsValue
+    onChange: (autoProxy: AutoProxySettingsValue) => void
+}
+
+/**
+ * Settings of the mode adding proxy rules after repeated failures
+ */
+function AutoProxySettings(props: AutoProxySettingsProps) {
+    const { autoProxy, onChange } = props
+    const [newDomain, setNewDomain] = useState("")
+
+    const update = (changes: Partial<AutoProxySettingsValue>) =>
+        onChange({ ...autoProxy, ...changes })
+
+    const handleAddDomain = () => {
+        const domain = newDomain.trim().toLowerCase().replace(/^\*\./, "")
+        if (domain && !autoProxy.excludedDomains.includes(domain)) {
+            update({ excludedDomains: [...autoProxy.excludedDomains, domain] })
+        }
+        setNewDomain("")
+    }
+
+    return (
+        <Box sx={{ mt: 2 }}>
+            <FormControlLabel
+                control={
+                    <Switch
+                        checked={autoProxy.enabled}
+                        onChange={(event) =>
+                            update({ enabled: event.target.checked })
+                        }
+                    />
+                }
+                label={t("autoProxyEnabled")}
+            />
+            <Typography variant="body2" color="text.secondary">
+                {t("autoProxyHelper")}
+            </Typography>
+            {autoProxy.enabled && (
+                <>
+                    <Box sx={{ display: "flex", gap: 2 }}>
+                        <TextField
+                            label={t("autoProxyFailureThreshold")}
+                            type="number"
+                            value={autoProxy.failureThreshold}
+                            onChange={(event) =>
+                                update({
+                                    failureThreshold: Math.max(
+                                        1,
+                                        parseInt(event.target.value) || 1
+                                    )
+                                })
+                            }
+                            margin="normal"
+                            size="small"
+                        />
+                        <TextField
+                            label={t("autoProxyWindowMinutes")}
+                            type="number"
+                            value={autoProxy.windowMinutes}
+                            onChange={(event) =>
+                                update({
+                                    windowMinutes: Math.max(
+                                        1,
+                                        parseInt(event.target.value) || 1
+                                    )
+                                })
+                            }
+                            margin="normal"
+                            size="small"
+                        />
+                    </Box>
+                    <Typography variant="body2" sx={{ mt: 1, mb: 1 }}>
+                        {t("autoProxyExcludedDomains")}
+                    </Typography>
+                    <Box
+                        sx={{
+                            display: "flex",
+                            flexWrap: "wrap",
+                            gap: 1,
+                            mb: 1
+                        }}>
+                        {autoProxy.excludedDomains.map((domain) => (
+                            <Chip
+                                key={domain}
+                                label={domain}
+                                size="small"
+                                onDelete={() =>
+                                    update({
+                                        excludedDomains:
+                                            autoProxy.excludedDomains.filter(
+                                                (d) => d !== domain
+                                            )
+                                    })
+                                }
+                            />
+                        ))}
+                    </Box>
+                    <Box
+                        sx={{
+                            display: "flex",
+                            alignItems: "flex-start",
+                            gap: 1
+                        }}>
+                        <TextField
+                            size="small"
+                            value={newDomain}
+                            onChange={(event) =>
+                                setNewDomain(event.target.value)
+                            }
+                            onKeyDown={(event) => {
+                                if (event.key === "Enter") {
+                                    event.preventDefault()
+                                    handleAddDomain()
+                                }
+                            }}
+                            placeholder="example.com"
+                            helperText={t("autoProxyExcludedDomainsHelper")}
+                            sx={{ flex: 1 }}
+                        />
+                        <Button
+                            variant="outlined"
+                            size="small"
+                            startIcon={<Add />}
+                            onClick={handleAddDomain}
+                            sx={{ mt: 0.5 }}>
+                            {t("add")}
+                        </Button>
+                    </Box>
+                </>
+            )}
+        </Box>
+    )
+}
+
+export default AutoProxySettings
@@ -0,0 +1,194 @@
+import {
+    Add,
+    ArrowDownward,
+    ArrowUpward,
+    Delete,
+    NetworkCheck
+} from "@mui/icons-material"
+import {
+    Box,
+    Button,
+    FormControl,
+    IconButton,
+    InputLabel,
+    MenuItem,
+    Paper,
+    Select,
+    TextField,
+    Typography
+} from "@mui/material"
+
+import type { ProxyEndpoint } from "../types/common"
+import { PROXY_SCHEMES } from "../types/common"
+import { t } from "../utils/i18n"
+
+interface FallbackProxyListProps {
+    fallbacks: ProxyEndpoint[]
+    onChange: (fallbacks: ProxyEndpoint[]) => void
+    onTest: (endpoint: ProxyEndpoint, index: number) => void
+}
+
+const createEmptyEndpoint = (): ProxyEndpoint => ({
+    scheme: "http",
+    address: "",
+    port: 8080,
+    username: "",
+    password: ""
+})
+
+/**
+ * Editor for the backup servers of a proxy profile, tried in list order
+ */
+function FallbackProxyList(props: FallbackProxyListProps) {
+    const { fallbacks, onChange, onTest } = props
+
+    const updateEndpoint = (index: number, update: Partial<ProxyEndpoint>) => {
+        onChange(
+            fallbacks.map((endpoint, i) =>
+                i === index ? { ...endpoint, ...update } : endpoint
+            )
+        )
+    }
+
+    const moveEndpoint = (index: number, offset: number) => {
+        const moved = [...fallbacks]
+        const [endpoint] = moved.splice(index, 1)
+        moved.splice(index + offset, 0, endpoint)
+        onChange(moved)
+    }
+
+    const removeEndpoint = (index: number) => {
+        onChange(fallbacks.filter((_, i) => i !== index))
+    }
+
+    return (
+        <Box>
+            {fallbacks.map((endpoint, index) => (
+                <Paper key={index} variant="outlined" sx={{ p: 1.5, mb: 1 }}>
+                    <Box
+                        sx={{
+                            display: "flex",
+                            alignItems: "center",
+                            justifyContent: "space-between"
+                        }}>
+                        <Typography variant="body2" color="text.secondary">
+                            {t("fallbackProxyIndex", {
+                                index: String(index + 1)
+                            })}
+                        </Typography>
+                        <Box>
+                            <IconButton
+                                size="small"
+                                title={t("testProxyServer")}
+                                onClick={() => onTest(endpoint, index)}>
+                                <NetworkCheck fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                                size="small"
+                                title={t("moveUp")}
+                                disabled={index === 0}
+                                onClick={() => moveEndpoint(index, -1)}>
+                                <ArrowUpward fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                                size="small"
+                                title={t("moveDown")}
+                                disabled={index === fallbacks.length - 1}
+                                onClick={() => moveEndpoint(index, 1)}>
+                                <ArrowDownward fontSize="small" />
+                            </IconButton>
+                            <IconButton
+                                size="small"
+                                title={t("removeFallbackProxy")}
+                                onClick={() => removeEndpoint(index)}>
+                                <Delete fontSize="small" />
+                            </IconButton>
+                        </Box>
+                    </Box>
+                    <Box sx={{ display: "flex", gap: 1 }}>
+                        <FormControl
+                            size="small"
+                            margin="dense"
+                            sx={{ minWidth: 110 }}>
+                            <InputLabel>{t("proxyProtocol")}</InputLabel>
+                            <Select
+                                value={endpoint.scheme}
+                                onChange={(event) =>
+                                    updateEndpoint(index, {
+                                        scheme: event.target.value
+                                    })
+                                }
+                                label={t("proxyProtocol")}>
+                                {PROXY_SCHEMES.map((scheme) => (
+                                    <MenuItem key={scheme} value={scheme}>
+                                        {scheme.toUpperCase()}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                        <TextField
+                            fullWidth
+                            label={t("proxyServerAddress")}
+                            value={endpoint.address}
+                            onChange={(event) =>
+                                updateEndpoint(index, {
+                                    address: event.target.value
+                                })
+                            }
+                            margin="dense"
+                            size="small"
+                        />
+                        <TextField
+                            label={t("proxyServerPort")}
+                            type="number"
+                            value={endpoint.port}
+                            onChange={(event) =>
+                                updateEndpoint(index, {
+                                    port: parseInt(event.target.value) || 0
+                                })
+                            }
+                            margin="dense"
+                            size="small"
+                            sx={{ width: 120, flexShrink: 0 }}
+                        />
+                    </Box>
+                    <Box sx={{ display: "flex", gap: 1 }}>
+                        <TextField
+                            fullWidth
+                            label={t("username")}
+                            value={endpoint.username}
+                            onChange={(event) =>
+                                updateEndpoint(index, {
+                                    username: event.target.value
+                                })
+                            }
+                            margin="dense"
+                            size="small"
+                        />
+                        <TextField
+                            fullWidth
+                            label={t("password")}
+                            type="password"
+                            value={endpoint.password}
+                            onChange={(event) =>
+                                updateEndpoint(index, {
+                                    password: event.target.value
+                                })
+                            }
+                            margin="dense"
+                            size="small"
+                        />
+                    </Box>
+                </Paper>
+            ))}
+            <Button
+                size="small"
+                startIcon={<Add />}
+                onClick={() => onChange([...fallbacks, createEmptyEndpoint()])}>
+                {t("addFallbackProxy")}
+            </Button>
+        </Box>
+    )
+}
+
+export default FallbackProxyList
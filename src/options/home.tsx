@@ -1,15 +1,21 @@
 import {
     Add,
     Delete,
+    Download,
     Edit,
     NetworkCheck,
     Refresh,
-    Save
+    Save,
+    Star,
+    StarBorder,
+    Undo,
+    UploadFile
 } from "@mui/icons-material"
 import {
     Alert,
     Box,
     Button,
+    Chip,
     CircularProgress,
     Container,
     Dialog,
@@ -24,6 +30,7 @@ import {
     ListItem,
     ListItemSecondaryAction,
     ListItemText,
+    Menu,
     MenuItem,
     Paper,
     Select,
@@ -32,6 +39,8 @@ import {
     Tab,
     Tabs,
     TextField,
+    ToggleButton,
+    ToggleButtonGroup,
     Typography
 } from "@mui/material"
 import type { SelectChangeEvent } from "@mui/material/Select"
@@ -40,11 +49,54 @@ import { useEffect, useState } from "react"
 import generalSettingsService from "~general-settings-service"
 import proxyRuleService from "~proxy-rule-service"
 import requestMonitorService from "~request-monitor-service"
-import { generateId } from "~utils/util"
+import pacEvaluator, {
+    type PacEvaluationResult,
+    type PacValidationResult
+} from "~utils/pac-evaluator"
+import {
+    getRuleExpiry,
+    RULE_DURATION_LABEL_KEYS,
+    RULE_DURATIONS,
+    type RuleDuration
+} from "~utils/rule-expiry"
+import {
+    getPacHost,
+    getRuleType,
+    isBypassRule,
+    isValidRulePattern
+} from "~utils/rule-matcher"
+import {
+    exportRulesAsJson,
+    exportRulesAsText,
+    type RuleTransferFormat
+} from "~utils/rule-transfer"
+import { downloadTextFile, generateId } from "~utils/util"
 
-import type { GeneralSettings, ProxyRule } from "../types/common"
-import { PROXY_SCHEMES } from "../types/common"
+import type {
+    GeneralSettings,
+    ProxyEndpoint,
+    ProxyMode,
+    ProxyProfile,
+    ProxyRule,
+    ProxyRuleAction,
+    ProxyRuleType
+} from "../types/common"
+import {
+    DEFAULT_PROXY_PROFILE_ID,
+    PROXY_RULE_TYPES,
+    PROXY_SCHEMES,
+    STORAGE_KEYS
+} from "../types/common"
 import { t } from "../utils/i18n"
+import AutoProxySettings from "./auto-proxy-settings"
+import FallbackProxyList from "./fallback-proxy-list"
+import IgnoredErrorsEditor from "./ignored-errors-editor"
+import InsightsPanel from "./insights-panel"
+import RuleImportDialog from "./rule-import-dialog"
+import RuleTester from "./rule-tester"
+import { RULE_TYPE_OPTIONS } from "./rule-type-options"
+import SubscriptionsPanel from "./subscriptions-panel"
+import SwitchyOmegaImportDialog from "./switchy-omega-import-dialog"
 
 interface TabPanelProps {
     children?: React.ReactNode
@@ -66,28 +118,71 @@ function TabPanel(props: TabPanelProps) {
     )
 }
 
+const createEmptyProfile = (): ProxyProfile => ({
+    id: generateId(),
+    name: "",
+    scheme: "http",
+    address: "",
+    port: 8080,
+    username: "",
+    password: ""
+})
+
 function Options() {
     const [tabValue, setTabValue] = useState(0)
     const [generalSettings, setGeneralSettings] = useState<GeneralSettings>({
         responseTimeThreshold: 5000,
-        proxyServerAddress: "",
-        proxyServerPort: 8080,
-        proxyServerScheme: "http",
-        proxyUsername: "",
-        proxyPassword: "",
-        proxyEnabled: false
+        proxyProfiles: [],
+        defaultProxyProfileId: DEFAULT_PROXY_PROFILE_ID,
+        proxyEnabled: false,
+        proxyMode: "rules",
+        pacUrl: "",
+        pacScript: "",
+        ignoredErrors: [],
+        autoProxy: {
+            enabled: false,
+            failureThreshold: 3,
+            windowMinutes: 10,
+            excludedDomains: []
+        }
     })
     const [proxyRules, setProxyRules] = useState<ProxyRule[]>([])
     const [dialogOpen, setDialogOpen] = useState(false)
     const [editingRule, setEditingRule] = useState<ProxyRule | null>(null)
     const [newRulePattern, setNewRulePattern] = useState("")
+    const [newRuleProfileId, setNewRuleProfileId] = useState("")
+    const [newRuleType, setNewRuleType] = useState<ProxyRuleType>("domain")
+    const [newRuleAction, setNewRuleAction] = useState<ProxyRuleAction>("proxy")
+    // "keep" leaves the expiry of the edited rule as it is
+    const [newRuleDuration, setNewRuleDuration] = useState<
+        RuleDuration | "keep"
+    >("forever")
+    const [ruleActionFilter, setRuleActionFilter] = useState<
+        "all" | ProxyRuleAction
+    >("all")
     const [snackbarOpen, setSnackbarOpen] = useState(false)
     const [snackbarMessage, setSnackbarMessage] = useState("")
+    const [profileDialogOpen, setProfileDialogOpen] = useState(false)
+    const [editingProfile, setEditingProfile] = useState<ProxyProfile | null>(
+        null
+    )
+    const [profileDraft, setProfileDraft] =
+        useState<ProxyProfile>(createEmptyProfile())
+    const [testProfile, setTestProfile] = useState<
+        (ProxyEndpoint & { name: string }) | null
+    >(null)
     const [testDialogOpen, setTestDialogOpen] = useState(false)
     const [testTarget, setTestTarget] = useState("https://www.google.com")
     const [testResult, setTestResult] = useState<string | null>(null)
+    const [pacCheck, setPacCheck] = useState<PacEvaluationResult | null>(null)
     const [testing, setTesting] = useState(false)
     const [searchTerm, setSearchTerm] = useState("")
+    const [omegaImportDialogOpen, setOmegaImportDialogOpen] = useState(false)
+    const [pacValidation, setPacValidation] =
+        useState<PacValidationResult | null>(null)
+    const [ruleImportDialogOpen, setRuleImportDialogOpen] = useState(false)
+    const [exportMenuAnchor, setExportMenuAnchor] =
+        useState<HTMLElement | null>(null)
 
     // Load settings from storage on component mount
     useEffect(() => {
@@ -105,11 +200,65 @@ function Options() {
         generalSettingSync()
     }, [])
 
+    // Shortcuts and the popup change settings while this page is open,
+    // saving the page's copy must not undo their changes
+    useEffect(() => {
+        const handleStorageChange = async (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            area: string
+        ) => {
+            const change = changes[STORAGE_KEYS.GENERAL_SETTINGS]
+            if (area !== "local" || !change) {
+                return
+            }
+            const stored = await generalSettingsService.getSettings()
+            setGeneralSettings((prev) =>
+                generalSettingsService.applyStorageChange(prev, stored, change)
+            )
+        }
+        chrome.storage.onChanged.addListener(handleStorageChange)
+        return () =>
+            chrome.storage.onChanged.removeListener(handleStorageChange)
+    }, [])
+
     useEffect(() => {
         proxyRuleService.getRules().then((rules) => setProxyRules(rules))
     }, [])
 
+    /**
+     * Make sure a pasted PAC script can be used before it replaces the generated one
+     * @returns true when the settings can be saved
+     */
+    const validatePacSettings = async (): Promise<boolean> => {
+        if (generalSettings.proxyMode === "pac_url") {
+            if (!/^(https?|file|data):/i.test(generalSettings.pacUrl.trim())) {
+                setSnackbarMessage(t("pacUrlInvalid"))
+                setSnackbarOpen(true)
+                return false
+            }
+        }
+        if (generalSettings.proxyMode === "pac_script") {
+            const result = await pacEvaluator.validate(
+                generalSettings.pacScript
+            )
+            setPacValidation(result)
+            if (!result.valid) {
+                setSnackbarMessage(t("pacScriptInvalid"))
+                setSnackbarOpen(true)
+                return false
+            }
+        }
+        return true
+    }
+
+    const handleValidatePacScript = async () => {
+        setPacValidation(await pacEvaluator.validate(generalSettings.pacScript))
+    }
+
     const saveSettings = async () => {
+        if (!(await validatePacSettings())) {
+            return
+        }
         generalSettingsService
             .saveSettings(generalSettings)
             .then(async () => {
@@ -130,13 +279,13 @@ function Options() {
         event: React.ChangeEvent<HTMLInputElement>
     ) => {
         const enabled = event.target.checked
-        const updatedSettings = {
-            ...generalSettings,
-            proxyEnabled: enabled
-        }
-        setGeneralSettings(updatedSettings)
+        setGeneralSettings((prev) => ({ ...prev, proxyEnabled: enabled }))
         try {
-            await generalSettingsService.saveSettings(updatedSettings)
+            // Only the switch changes, other fields may hold unsaved edits
+            await generalSettingsService.saveSettings({
+                ...(await generalSettingsService.getSettings()),
+                proxyEnabled: enabled
+            })
             await chrome.runtime.sendMessage({
                 action: "configureSelectiveProxy"
             })
@@ -156,28 +305,157 @@ function Options() {
             setGeneralSettings((prev) => ({
                 ...prev,
                 [field]:
-                    field === "responseTimeThreshold" ||
-                    field === "proxyServerPort"
+                    field === "responseTimeThreshold"
                         ? parseInt(value) || 0
                         : value
             }))
         }
 
-    const handleSchemeChange = (event: SelectChangeEvent) => {
+    const persistProxyProfiles = async (
+        proxyProfiles: ProxyProfile[],
+        defaultProxyProfileId: string
+    ) => {
         setGeneralSettings((prev) => ({
             ...prev,
-            proxyServerScheme: event.target.value
+            proxyProfiles,
+            defaultProxyProfileId
         }))
+        try {
+            await generalSettingsService.saveSettings({
+                ...(await generalSettingsService.getSettings()),
+                proxyProfiles,
+                defaultProxyProfileId
+            })
+            await chrome.runtime.sendMessage({
+                action: "configureSelectiveProxy"
+            })
+        } catch (error) {
+            console.error("Error saving proxy profiles:", error)
+            setSnackbarMessage(t("saveSettingsFailed"))
+            setSnackbarOpen(true)
+        }
+    }
+
+    const handleAddProfile = () => {
+        setEditingProfile(null)
+        setProfileDraft(createEmptyProfile())
+        setProfileDialogOpen(true)
+    }
+
+    const handleEditProfile = (profile: ProxyProfile) => {
+        setEditingProfile(profile)
+        setProfileDraft({ ...profile })
+        setProfileDialogOpen(true)
     }
+
+    const handleCloseProfileDialog = () => {
+        setProfileDialogOpen(false)
+        setEditingProfile(null)
+    }
+
+    const handleProfileDraftChange =
+        (field: keyof ProxyProfile) =>
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const value = event.target.value
+            setProfileDraft((prev) => ({
+                ...prev,
+                [field]: field === "port" ? parseInt(value) || 0 : value
+            }))
+        }
+
+    const handleProfileSchemeChange = (event: SelectChangeEvent) => {
+        setProfileDraft((prev) => ({
+            ...prev,
+            scheme: event.target.value
+        }))
+    }
+
+    const handleSaveProfile = async () => {
+        const name = profileDraft.name.trim()
+        const address = profileDraft.address.trim()
+        if (!name || !address || !profileDraft.port) {
+            setSnackbarMessage(t("profileFieldsRequired"))
+            setSnackbarOpen(true)
+            return
+        }
+        const fallbacks = (profileDraft.fallbacks || [])
+            .map((endpoint) => ({
+                ...endpoint,
+                address: endpoint.address.trim()
+            }))
+            .filter((endpoint) => endpoint.address)
+        if (fallbacks.some((endpoint) => !endpoint.port)) {
+            setSnackbarMessage(t("profileFieldsRequired"))
+            setSnackbarOpen(true)
+            return
+        }
+        const profile = { ...profileDraft, name, address, fallbacks }
+        const profiles = editingProfile
+            ? generalSettings.proxyProfiles.map((p) =>
+                  p.id === editingProfile.id ? profile : p
+              )
+            : [...generalSettings.proxyProfiles, profile]
+        // The first profile becomes the default automatically
+        const defaultProfileId = profiles.some(
+            (p) => p.id === generalSettings.defaultProxyProfileId
+        )
+            ? generalSettings.defaultProxyProfileId
+            : profile.id
+        await persistProxyProfiles(profiles, defaultProfileId)
+        handleCloseProfileDialog()
+    }
+
+    const handleDeleteProfile = async (profile: ProxyProfile) => {
+        const profiles = generalSettings.proxyProfiles.filter(
+            (p) => p.id !== profile.id
+        )
+        const defaultProfileId =
+            profile.id === generalSettings.defaultProxyProfileId
+                ? profiles[0]?.id || DEFAULT_PROXY_PROFILE_ID
+                : generalSettings.defaultProxyProfileId
+        await persistProxyProfiles(profiles, defaultProfileId)
+    }
+
+    const handleSetDefaultProfile = async (profile: ProxyProfile) => {
+        await persistProxyProfiles(generalSettings.proxyProfiles, profile.id)
+    }
+
+    const getProfileName = (proxyProfileId?: string) => {
+        const profile = generalSettingsService.getProfileForRule(
+            generalSettings,
+            proxyProfileId
+        )
+        return profile ? profile.name : t("noProxyProfile")
+    }
+
+    // Time of day for rules expiring today, date and time otherwise
+    const formatRuleExpiry = (expiresAt: number) => {
+        const date = new Date(expiresAt)
+        return date.toDateString() === new Date().toDateString()
+            ? date.toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit"
+              })
+            : date.toLocaleString()
+    }
+
     const handleAddRule = () => {
         setEditingRule(null)
         setNewRulePattern("")
+        setNewRuleProfileId("")
+        setNewRuleType("domain")
+        setNewRuleAction("proxy")
+        setNewRuleDuration("forever")
         setDialogOpen(true)
     }
 
     const handleEditRule = (rule: ProxyRule) => {
         setEditingRule(rule)
         setNewRulePattern(rule.pattern)
+        setNewRuleProfileId(rule.proxyProfileId || "")
+        setNewRuleType(getRuleType(rule))
+        setNewRuleAction(isBypassRule(rule) ? "bypass" : "proxy")
+        setNewRuleDuration(rule.expiresAt ? "keep" : "forever")
         setDialogOpen(true)
     }
 
@@ -189,17 +467,44 @@ function Options() {
                 requestMonitorService.configureSelectiveProxy()
             })
     }
+    // Removes the rule and excludes its domain from the auto-proxy mode
+    const handleUndoAutoRule = async (id: string) => {
+        await chrome.runtime.sendMessage({
+            action: "undoAutoProxyRule",
+            ruleId: id
+        })
+        setProxyRules(await proxyRuleService.getRules())
+        setGeneralSettings(await generalSettingsService.getSettings())
+    }
+
     const handleSaveRule = () => {
         if (!newRulePattern.trim()) {
             setSnackbarMessage(t("enterRulePattern"))
             setSnackbarOpen(true)
             return
         }
+        if (!isValidRulePattern(newRuleType, newRulePattern)) {
+            setSnackbarMessage(t("invalidRulePattern"))
+            setSnackbarOpen(true)
+            return
+        }
+
+        const expiresAt =
+            newRuleDuration === "keep"
+                ? editingRule?.expiresAt
+                : getRuleExpiry(newRuleDuration)
 
         if (editingRule) {
             proxyRuleService
                 .updateProxyRule(editingRule.id, {
-                    pattern: newRulePattern
+                    pattern: newRulePattern,
+                    type: newRuleType,
+                    action: newRuleAction,
+                    proxyProfileId:
+                        newRuleAction === "proxy"
+                            ? newRuleProfileId || undefined
+                            : undefined,
+                    expiresAt
                 })
                 .then(() => {
                     proxyRuleService
@@ -219,7 +524,14 @@ function Options() {
             // Add new rule
             const newRule: ProxyRule = {
                 id: generateId(),
-                pattern: newRulePattern
+                pattern: newRulePattern,
+                type: newRuleType,
+                action: newRuleAction,
+                proxyProfileId:
+                    newRuleAction === "proxy"
+                        ? newRuleProfileId || undefined
+                        : undefined,
+                expiresAt
             }
             proxyRuleService
                 .addRule(newRule)
@@ -231,15 +543,43 @@ function Options() {
 
         setDialogOpen(false)
         setNewRulePattern("")
+        setNewRuleProfileId("")
         setEditingRule(null)
     }
 
     const handleCloseDialog = () => {
         setDialogOpen(false)
         setNewRulePattern("")
+        setNewRuleProfileId("")
         setEditingRule(null)
     }
 
+    const handleImported = async (message: string) => {
+        setGeneralSettings(await generalSettingsService.getSettings())
+        setProxyRules(await proxyRuleService.getRules())
+        setSnackbarMessage(message)
+        setSnackbarOpen(true)
+    }
+
+    const handleExportRules = async (format: RuleTransferFormat) => {
+        setExportMenuAnchor(null)
+        const rules = await proxyRuleService.getRules()
+        const date = new Date().toISOString().substring(0, 10)
+        if (format === "json") {
+            downloadTextFile(
+                `proxy-rules-${date}.json`,
+                exportRulesAsJson(rules),
+                "application/json"
+            )
+        } else {
+            downloadTextFile(
+                `proxy-rules-${date}.txt`,
+                exportRulesAsText(rules),
+                "text/plain"
+            )
+        }
+    }
+
     const handleCloseSnackbar = () => {
         setSnackbarOpen(false)
     }
@@ -248,26 +588,62 @@ function Options() {
         setSearchTerm(event.target.value)
     }
 
-    const filteredProxyRules = proxyRules.filter((rule) =>
-        rule.pattern.toLowerCase().includes(searchTerm.toLowerCase())
+    // A PAC file replaces the rules in these modes
+    const isExternalPacMode =
+        generalSettings.proxyMode === "pac_url" ||
+        generalSettings.proxyMode === "pac_script"
+
+    const filteredProxyRules = proxyRules.filter(
+        (rule) =>
+            rule.pattern.toLowerCase().includes(searchTerm.toLowerCase()) &&
+            (ruleActionFilter === "all" ||
+                (ruleActionFilter === "bypass") === isBypassRule(rule))
     )
 
-    const handleTestProxy = () => {
+    const handleTestProxy = (profile: ProxyEndpoint & { name: string }) => {
+        setTestProfile(profile)
         setTestDialogOpen(true)
         setTestResult(null)
+        checkPacDirective(profile, testTarget)
+    }
+
+    // Run the PAC script generated for a rule sending the target to this server
+    // in the sandbox, to show the directive Chrome will receive
+    const checkPacDirective = async (
+        endpoint: ProxyEndpoint,
+        target: string
+    ) => {
+        setPacCheck(null)
+        const host = getPacHost(target)
+        if (!host || !endpoint.address || !endpoint.port) {
+            return
+        }
+        const profile: ProxyProfile = {
+            ...endpoint,
+            id: generateId(),
+            name: ""
+        }
+        const script = requestMonitorService.generatePacScript(
+            {
+                ...generalSettings,
+                proxyProfiles: [profile],
+                defaultProxyProfileId: profile.id
+            },
+            [{ id: generateId(), pattern: host, type: "domain" }]
+        )
+        setPacCheck(await pacEvaluator.evaluate(script, target))
     }
 
     const handleCloseTestDialog = () => {
         setTestDialogOpen(false)
+        setTestProfile(null)
         setTestTarget("https://www.google.com")
         setTestResult(null)
+        setPacCheck(null)
     }
 
     const performProxyTest = async () => {
-        if (
-            !generalSettings.proxyServerAddress ||
-            !generalSettings.proxyServerPort
-        ) {
+        if (!testProfile?.address || !testProfile.port) {
             setSnackbarMessage(t("configureProxyFirst"))
             setSnackbarOpen(true)
             return
@@ -275,6 +651,7 @@ function Options() {
 
         setTesting(true)
         setTestResult(null)
+        checkPacDirective(testProfile, testTarget)
 
         // Save original proxy settings
         let originalProxyConfig: chrome.proxy.ProxyConfig | null = null
@@ -295,31 +672,27 @@ function Options() {
                 mode: "fixed_servers",
                 rules: {
                     singleProxy: {
-                        scheme: generalSettings.proxyServerScheme,
-                        host: generalSettings.proxyServerAddress,
-                        port: generalSettings.proxyServerPort
+                        scheme: testProfile.scheme,
+                        host: testProfile.address,
+                        port: testProfile.port
                     },
                     bypassList: ["<local>", "localhost", "127.0.0.1"]
                 }
             }
 
             // Set up proxy authentication if credentials are provided
-            if (
-                generalSettings.proxyUsername &&
-                generalSettings.proxyPassword
-            ) {
+            if (testProfile.username && testProfile.password) {
                 authListener = (
                     details: chrome.webRequest.WebAuthenticationChallengeDetails
                 ) => {
                     if (
                         details.isProxy &&
-                        details.challenger.host ===
-                            generalSettings.proxyServerAddress
+                        details.challenger.host === testProfile.address
                     ) {
                         return {
                             authCredentials: {
-                                username: generalSettings.proxyUsername,
-                                password: generalSettings.proxyPassword
+                                username: testProfile.username,
+                                password: testProfile.password
                             }
                         }
                     }
@@ -460,6 +833,8 @@ function Options() {
                             variant="fullWidth">
                             <Tab label={t("generalSettings")} />
                             <Tab label={t("proxyRulesDetails")} />
+                            <Tab label={t("ruleSubscriptions")} />
+                            <Tab label={t("networkInsights")} />
                         </Tabs>
                     </Box>
 
@@ -475,17 +850,6 @@ function Options() {
                                 {t("generalSettings")}
                             </Typography>
                             <Box sx={{ display: "flex", gap: 1 }}>
-                                <Button
-                                    variant="outlined"
-                                    size="small"
-                                    startIcon={<NetworkCheck />}
-                                    onClick={handleTestProxy}
-                                    disabled={
-                                        !generalSettings.proxyServerAddress ||
-                                        !generalSettings.proxyServerPort
-                                    }>
-                                    {t("testProxyServer")}
-                                </Button>
                                 <Button
                                     variant="contained"
                                     size="small"
@@ -524,6 +888,122 @@ function Options() {
                                 {t("proxyEnabledHelper")}
                             </Typography>
 
+                            <Typography
+                                variant="subtitle2"
+                                sx={{ mb: 1, color: "text.secondary" }}>
+                                {t("proxyMode")}
+                            </Typography>
+                            <FormControl fullWidth size="small" margin="dense">
+                                <InputLabel>{t("proxyMode")}</InputLabel>
+                                <Select
+                                    label={t("proxyMode")}
+                                    value={generalSettings.proxyMode}
+                                    onChange={(e) => {
+                                        setPacValidation(null)
+                                        setGeneralSettings((prev) => ({
+                                            ...prev,
+                                            proxyMode: e.target
+                                                .value as ProxyMode
+                                        }))
+                                    }}>
+                                    <MenuItem value="rules">
+                                        {t("proxyModeRules")}
+                                    </MenuItem>
+                                    <MenuItem value="global">
+                                        {t("proxyModeGlobal")}
+                                    </MenuItem>
+                                    <MenuItem value="pac_url">
+                                        {t("proxyModePacUrl")}
+                                    </MenuItem>
+                                    <MenuItem value="pac_script">
+                                        {t("proxyModePacScript")}
+                                    </MenuItem>
+                                </Select>
+                            </FormControl>
+                            <Typography
+                                variant="caption"
+                                display="block"
+                                color="text.secondary"
+                                sx={{ mb: 1 }}>
+                                {t("proxyModeHelper")}
+                            </Typography>
+                            {generalSettings.proxyMode === "pac_url" && (
+                                <TextField
+                                    fullWidth
+                                    label={t("pacUrl")}
+                                    placeholder="http://wpad.example.com/proxy.pac"
+                                    value={generalSettings.pacUrl}
+                                    onChange={handleGeneralSettingChange(
+                                        "pacUrl"
+                                    )}
+                                    margin="dense"
+                                    size="small"
+                                    helperText={t("pacUrlHelper")}
+                                />
+                            )}
+                            {generalSettings.proxyMode === "pac_script" && (
+                                <Box sx={{ mb: 1 }}>
+                                    <TextField
+                                        fullWidth
+                                        multiline
+                                        minRows={8}
+                                        maxRows={20}
+                                        label={t("pacScript")}
+                                        placeholder={
+                                            'function FindProxyForURL(url, host) {\n    return "DIRECT";\n}'
+                                        }
+                                        value={generalSettings.pacScript}
+                                        onChange={(e) => {
+                                            setPacValidation(null)
+                                            handleGeneralSettingChange(
+                                                "pacScript"
+                                            )(
+                                                e as React.ChangeEvent<HTMLInputElement>
+                                            )
+                                        }}
+                                        margin="dense"
+                                        size="small"
+                                        InputProps={{
+                                            sx: {
+                                                fontFamily: "monospace",
+                                                fontSize: 13
+                                            }
+                                        }}
+                                    />
+                                    <Box
+                                        sx={{
+                                            display: "flex",
+                                            alignItems: "center",
+                                            gap: 2
+                                        }}>
+                                        <Button
+                                            variant="outlined"
+                                            size="small"
+                                            onClick={handleValidatePacScript}>
+                                            {t("validatePacScript")}
+                                        </Button>
+                                        {pacValidation && (
+                                            <Typography
+                                                variant="body2"
+                                                color={
+                                                    pacValidation.valid
+                                                        ? "success.main"
+                                                        : "error"
+                                                }>
+                                                {pacValidation.valid
+                                                    ? t("pacScriptValid")
+                                                    : pacValidation.error}
+                                            </Typography>
+                                        )}
+                                    </Box>
+                                </Box>
+                            )}
+                            {isExternalPacMode && (
+                                <Alert severity="info" sx={{ my: 1 }}>
+                                    {t("externalPacRulesNotice")}
+                                </Alert>
+                            )}
+
                             <Typography
                                 variant="subtitle2"
                                 sx={{ mb: 2, color: "text.secondary" }}>
@@ -543,78 +1023,186 @@ function Options() {
                                 helperText={t("responseTimeThresholdHelper")}
                             />
 
-                            <Typography
-                                variant="subtitle2"
-                                sx={{ mt: 2, mb: 2, color: "text.secondary" }}>
-                                {t("proxyServerSettings")}
-                            </Typography>
-
-                            <FormControl size="small" sx={{ minWidth: 200 }}>
-                                <InputLabel>{t("proxyProtocol")}</InputLabel>
-                                <Select
-                                    value={generalSettings.proxyServerScheme}
-                                    onChange={handleSchemeChange}
-                                    label={t("proxyProtocol")}>
-                                    {PROXY_SCHEMES.map((scheme) => (
-                                        <MenuItem key={scheme} value={scheme}>
-                                            {scheme.toUpperCase()}
-                                        </MenuItem>
-                                    ))}
-                                </Select>
-                            </FormControl>
-
-                            <TextField
-                                fullWidth
-                                label={t("proxyServerAddress")}
-                                value={generalSettings.proxyServerAddress}
-                                onChange={handleGeneralSettingChange(
-                                    "proxyServerAddress"
-                                )}
-                                margin="normal"
-                                size="small"
-                                helperText={t("proxyServerAddressHelper")}
+                            <AutoProxySettings
+                                autoProxy={generalSettings.autoProxy}
+                                onChange={(autoProxy) =>
+                                    setGeneralSettings((prev) => ({
+                                        ...prev,
+                                        autoProxy
+                                    }))
+                                }
                             />
 
-                            <TextField
-                                fullWidth
-                                label={t("proxyServerPort")}
-                                type="number"
-                                value={generalSettings.proxyServerPort}
-                                onChange={handleGeneralSettingChange(
-                                    "proxyServerPort"
-                                )}
-                                margin="normal"
-                                size="small"
+                            <IgnoredErrorsEditor
+                                ignoredErrors={generalSettings.ignoredErrors}
+                                onChange={(ignoredErrors) =>
+                                    setGeneralSettings((prev) => ({
+                                        ...prev,
+                                        ignoredErrors
+                                    }))
+                                }
                             />
 
+                            <Box
+                                sx={{
+                                    display: "flex",
+                                    justifyContent: "space-between",
+                                    alignItems: "center",
+                                    mt: 2
+                                }}>
+                                <Typography
+                                    variant="subtitle2"
+                                    sx={{ color: "text.secondary" }}>
+                                    {t("proxyServerSettings")}
+                                </Typography>
+                                <Button
+                                    variant="outlined"
+                                    size="small"
+                                    startIcon={<Add />}
+                                    onClick={handleAddProfile}>
+                                    {t("addProxyProfile")}
+                                </Button>
+                            </Box>
                             <Typography
-                                variant="subtitle2"
-                                sx={{ mt: 2, mb: 1, color: "text.secondary" }}>
-                                {t("proxyAuthSettings")}
+                                variant="caption"
+                                display="block"
+                                color="text.secondary"
+                                sx={{ mb: 1 }}>
+                                {t("proxyProfilesHelper")}
                             </Typography>
 
-                            <TextField
-                                fullWidth
-                                label={t("username")}
-                                value={generalSettings.proxyUsername}
-                                onChange={handleGeneralSettingChange(
-                                    "proxyUsername"
-                                )}
-                                margin="normal"
-                                size="small"
-                            />
-
-                            <TextField
-                                fullWidth
-                                label={t("password")}
-                                type="password"
-                                value={generalSettings.proxyPassword}
-                                onChange={handleGeneralSettingChange(
-                                    "proxyPassword"
-                                )}
-                                margin="normal"
-                                size="small"
-                            />
+                            {generalSettings.proxyProfiles.length === 0 ? (
+                                <Alert severity="info">
+                                    {t("noProxyProfilesMessage")}
+                                </Alert>
+                            ) : (
+                                <List dense>
+                                    {generalSettings.proxyProfiles.map(
+                                        (profile) => {
+                                            const isDefault =
+                                                profile.id ===
+                                                generalSettings.defaultProxyProfileId
+                                            return (
+                                                <ListItem
+                                                    key={profile.id}
+                                                    divider>
+                                                    <ListItemText
+                                                        primary={
+                                                            <Box
+                                                                sx={{
+                                                                    display:
+                                                                        "flex",
+                                                                    alignItems:
+                                                                        "center",
+                                                                    gap: 1
+                                                                }}>
+                                                                {profile.name}
+                                                                {!generalSettingsService.hasProxyServer(
+                                                                    profile
+                                                                ) && (
+                                                                    <Chip
+                                                                        label={t(
+                                                                            "proxyProfileNoServer"
+                                                                        )}
+                                                                        size="small"
+                                                                        color="error"
+                                                                        variant="outlined"
+                                                                    />
+                                                                )}
+                                                                {isDefault && (
+                                                                    <Chip
+                                                                        label={t(
+                                                                            "defaultProxyProfile"
+                                                                        )}
+                                                                        size="small"
+                                                                        color="primary"
+                                                                        variant="outlined"
+                                                                    />
+                                                                )}
+                                                            </Box>
+                                                        }
+                                                        secondary={[
+                                                            profile,
+                                                            ...(profile.fallbacks ||
+                                                                [])
+                                                        ]
+                                                            .map(
+                                                                (endpoint) =>
+                                                                    `${endpoint.scheme}://${endpoint.address}:${endpoint.port}`
+                                                            )
+                                                            .concat(
+                                                                profile.fallbackToDirect
+                                                                    ? ["DIRECT"]
+                                                                    : []
+                                                            )
+                                                            .join(" → ")}
+                                                    />
+                                                    <ListItemSecondaryAction>
+                                                        <IconButton
+                                                            edge="end"
+                                                            aria-label="default"
+                                                            size="small"
+                                                            title={t(
+                                                                "setDefaultProxyProfile"
+                                                            )}
+                                                            disabled={isDefault}
+                                                            onClick={() =>
+                                                                handleSetDefaultProfile(
+                                                                    profile
+                                                                )
+                                                            }
+                                                            sx={{ mr: 1 }}>
+                                                            {isDefault ? (
+                                                                <Star />
+                                                            ) : (
+                                                                <StarBorder />
+                                                            )}
+                                                        </IconButton>
+                                                        <IconButton
+                                                            edge="end"
+                                                            aria-label="test"
+                                                            size="small"
+                                                            title={t(
+                                                                "testProxyServer"
+                                                            )}
+                                                            onClick={() =>
+                                                                handleTestProxy(
+                                                                    profile
+                                                                )
+                                                            }
+                                                            sx={{ mr: 1 }}>
+                                                            <NetworkCheck />
+                                                        </IconButton>
+                                                        <IconButton
+                                                            edge="end"
+                                                            aria-label="edit"
+                                                            size="small"
+                                                            onClick={() =>
+                                                                handleEditProfile(
+                                                                    profile
+                                                                )
+                                                            }
+                                                            sx={{ mr: 1 }}>
+                                                            <Edit />
+                                                        </IconButton>
+                                                        <IconButton
+                                                            edge="end"
+                                                            aria-label="delete"
+                                                            size="small"
+                                                            onClick={() =>
+                                                                handleDeleteProfile(
+                                                                    profile
+                                                                )
+                                                            }>
+                                                            <Delete />
+                                                        </IconButton>
+                                                    </ListItemSecondaryAction>
+                                                </ListItem>
+                                            )
+                                        }
+                                    )}
+                                </List>
+                            )}
                         </Box>
                     </TabPanel>
 
@@ -685,6 +1273,87 @@ function Options() {
                             </Box>
                         </Box>
 
+                        <Box
+                            sx={{
+                                display: "flex",
+                                justifyContent: "space-between",
+                                alignItems: "center",
+                                mb: 2
+                            }}>
+                            <ToggleButtonGroup
+                                size="small"
+                                exclusive
+                                value={ruleActionFilter}
+                                onChange={(_, value) =>
+                                    value && setRuleActionFilter(value)
+                                }>
+                                <ToggleButton value="all">
+                                    {t("ruleFilterAll")}
+                                </ToggleButton>
+                                <ToggleButton value="proxy">
+                                    {t("ruleActionProxy")}
+                                </ToggleButton>
+                                <ToggleButton value="bypass">
+                                    {t("ruleActionBypass")}
+                                </ToggleButton>
+                            </ToggleButtonGroup>
+                            <Box sx={{ display: "flex", gap: 1 }}>
+                                <Button
+                                    variant="outlined"
+                                    size="small"
+                                    startIcon={<UploadFile />}
+                                    onClick={() =>
+                                        setOmegaImportDialogOpen(true)
+                                    }>
+                                    {t("importSwitchyOmega")}
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    size="small"
+                                    startIcon={<UploadFile />}
+                                    onClick={() =>
+                                        setRuleImportDialogOpen(true)
+                                    }>
+                                    {t("importRules")}
+                                </Button>
+                                <Button
+                                    variant="outlined"
+                                    size="small"
+                                    startIcon={<Download />}
+                                    disabled={proxyRules.length === 0}
+                                    onClick={(e) =>
+                                        setExportMenuAnchor(e.currentTarget)
+                                    }>
+                                    {t("exportRules")}
+                                </Button>
+                                <Menu
+                                    anchorEl={exportMenuAnchor}
+                                    open={Boolean(exportMenuAnchor)}
+                                    onClose={() => setExportMenuAnchor(null)}>
+                                    <MenuItem
+                                        onClick={() =>
+                                            handleExportRules("json")
+                                        }>
+                                        {t("exportRulesJson")}
+                                    </MenuItem>
+                                    <MenuItem
+                                        onClick={() =>
+                                            handleExportRules("text")
+                                        }>
+                                        {t("exportRulesText")}
+                                    </MenuItem>
+                                </Menu>
+                            </Box>
+                        </Box>
+
+                        {isExternalPacMode && (
+                            <Alert severity="info" sx={{ mb: 2 }}>
+                                {t("externalPacRulesNotice")}
+                            </Alert>
+                        )}
+
+                        <RuleTester />
+
                         {filteredProxyRules.length === 0 ? (
                             <Alert severity="info">
                                 {searchTerm
@@ -695,8 +1364,94 @@ function Options() {
                             <List dense>
                                 {filteredProxyRules.map((rule) => (
                                     <ListItem key={rule.id} divider>
-                                        <ListItemText primary={rule.pattern} />
+                                        <ListItemText
+                                            primary={
+                                                <Box
+                                                    sx={{
+                                                        display: "flex",
+                                                        alignItems: "center",
+                                                        gap: 1
+                                                    }}>
+                                                    {rule.pattern}
+                                                    {isBypassRule(rule) && (
+                                                        <Chip
+                                                            label={t(
+                                                                "ruleActionBypass"
+                                                            )}
+                                                            size="small"
+                                                            color="warning"
+                                                        />
+                                                    )}
+                                                    {rule.origin === "auto" && (
+                                                        <Chip
+                                                            label={t(
+                                                                "ruleOriginAuto"
+                                                            )}
+                                                            title={
+                                                                rule.createdAt
+                                                                    ? new Date(
+                                                                          rule.createdAt
+                                                                      ).toLocaleString()
+                                                                    : undefined
+                                                            }
+                                                            size="small"
+                                                            color="info"
+                                                        />
+                                                    )}
+                                                    {rule.expiresAt && (
+                                                        <Chip
+                                                            label={t(
+                                                                "ruleExpiresAt",
+                                                                {
+                                                                    time: formatRuleExpiry(
+                                                                        rule.expiresAt
+                                                                    )
+                                                                }
+                                                            )}
+                                                            size="small"
+                                                            color="secondary"
+                                                            variant="outlined"
+                                                        />
+                                                    )}
+                                                    <Chip
+                                                        label={t(
+                                                            RULE_TYPE_OPTIONS[
+                                                                getRuleType(
+                                                                    rule
+                                                                )
+                                                            ].label
+                                                        )}
+                                                        size="small"
+                                                        variant="outlined"
+                                                    />
+                                                </Box>
+                                            }
+                                            secondary={
+                                                isBypassRule(rule)
+                                                    ? t("bypassRuleSecondary")
+                                                    : getProfileName(
+                                                          rule.proxyProfileId
+                                                      )
+                                            }
+                                        />
                                         <ListItemSecondaryAction>
+                                            {rule.origin === "auto" && (
+                                                <IconButton
+                                                    edge="end"
+                                                    aria-label="undo"
+                                                    size="small"
+                                                    title={t(
+                                                        "undoAutoProxyRule"
+                                                    )}
+                                                    onClick={() =>
+                                                        handleUndoAutoRule(
+                                                            rule.id
+                                                        )
+                                                    }
+                                                    sx={{ mr: 1 }}>
+                                                    <Undo />
+                                                </IconButton>
+                                            )}
                                             <IconButton
                                                 edge="end"
                                                 aria-label="edit"
@@ -723,6 +1478,25 @@ function Options() {
                         )}
                     </TabPanel>
 
+                    <TabPanel value={tabValue} index={2}>
+                        <SubscriptionsPanel
+                            proxyProfiles={generalSettings.proxyProfiles}
+                            onMessage={(message) => {
+                                setSnackbarMessage(message)
+                                setSnackbarOpen(true)
+                            }}
+                        />
+                    </TabPanel>
+
+                    <TabPanel value={tabValue} index={3}>
+                        <InsightsPanel
+                            onMessage={(message) => {
+                                setSnackbarMessage(message)
+                                setSnackbarOpen(true)
+                            }}
+                        />
+                    </TabPanel>
+
                     {/* Add/Edit Rule Dialog */}
                     <Dialog
                         open={dialogOpen}
@@ -733,6 +1507,41 @@ function Options() {
                             {editingRule ? t("editRule") : t("addRuleDialog")}
                         </DialogTitle>
                         <DialogContent>
+                            <FormControl fullWidth size="small" margin="dense">
+                                <InputLabel>{t("ruleAction")}</InputLabel>
+                                <Select
+                                    value={newRuleAction}
+                                    onChange={(e) =>
+                                        setNewRuleAction(
+                                            e.target.value as ProxyRuleAction
+                                        )
+                                    }
+                                    label={t("ruleAction")}>
+                                    <MenuItem value="proxy">
+                                        {t("ruleActionProxy")}
+                                    </MenuItem>
+                                    <MenuItem value="bypass">
+                                        {t("ruleActionBypass")}
+                                    </MenuItem>
+                                </Select>
+                            </FormControl>
+                            <FormControl fullWidth size="small" margin="dense">
+                                <InputLabel>{t("ruleType")}</InputLabel>
+                                <Select
+                                    value={newRuleType}
+                                    onChange={(e) =>
+                                        setNewRuleType(
+                                            e.target.value as ProxyRuleType
+                                        )
+                                    }
+                                    label={t("ruleType")}>
+                                    {PROXY_RULE_TYPES.map((type) => (
+                                        <MenuItem key={type} value={type}>
+                                            {t(RULE_TYPE_OPTIONS[type].label)}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
                             <TextField
                                 autoFocus
                                 margin="dense"
@@ -743,9 +1552,87 @@ function Options() {
                                 onChange={(e) =>
                                     setNewRulePattern(e.target.value)
                                 }
-                                placeholder="*.google.com"
-                                helperText={t("rulePatternHelper")}
+                                placeholder={
+                                    RULE_TYPE_OPTIONS[newRuleType].placeholder
+                                }
+                                error={
+                                    !!newRulePattern.trim() &&
+                                    !isValidRulePattern(
+                                        newRuleType,
+                                        newRulePattern
+                                    )
+                                }
+                                helperText={t(
+                                    RULE_TYPE_OPTIONS[newRuleType].helper
+                                )}
                             />
+                            <FormControl
+                                fullWidth
+                                size="small"
+                                margin="dense"
+                                disabled={
+                                    newRuleAction === "bypass" ||
+                                    generalSettings.proxyProfiles.length === 0
+                                }>
+                                <InputLabel shrink>
+                                    {t("proxyProfile")}
+                                </InputLabel>
+                                <Select
+                                    value={newRuleProfileId}
+                                    notched
+                                    onChange={(e) =>
+                                        setNewRuleProfileId(e.target.value)
+                                    }
+                                    label={t("proxyProfile")}
+                                    displayEmpty>
+                                    <MenuItem value="">
+                                        {t("useDefaultProxyProfile")}
+                                    </MenuItem>
+                                    {generalSettings.proxyProfiles.map(
+                                        (profile) => (
+                                            <MenuItem
+                                                key={profile.id}
+                                                value={profile.id}>
+                                                {profile.name}
+                                            </MenuItem>
+                                        )
+                                    )}
+                                </Select>
+                            </FormControl>
+                            <FormControl fullWidth size="small" margin="dense">
+                                <InputLabel>{t("ruleDuration")}</InputLabel>
+                                <Select
+                                    value={newRuleDuration}
+                                    onChange={(e) =>
+                                        setNewRuleDuration(
+                                            e.target.value as
+                                                | RuleDuration
+                                                | "keep"
+                                        )
+                                    }
+                                    label={t("ruleDuration")}>
+                                    {editingRule?.expiresAt && (
+                                        <MenuItem value="keep">
+                                            {t("ruleDurationKeep", {
+                                                time: formatRuleExpiry(
+                                                    editingRule.expiresAt
+                                                )
+                                            })}
+                                        </MenuItem>
+                                    )}
+                                    {RULE_DURATIONS.map((duration) => (
+                                        <MenuItem
+                                            key={duration}
+                                            value={duration}>
+                                            {t(
+                                                RULE_DURATION_LABEL_KEYS[
+                                                    duration
+                                                ]
+                                            )}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
                         </DialogContent>
                         <DialogActions>
                             <Button onClick={handleCloseDialog} size="small">
@@ -760,13 +1647,203 @@ function Options() {
                         </DialogActions>
                     </Dialog>
 
+                    <SwitchyOmegaImportDialog
+                        open={omegaImportDialogOpen}
+                        onClose={() => setOmegaImportDialogOpen(false)}
+                        onImported={handleImported}
+                    />
+
+                    <RuleImportDialog
+                        open={ruleImportDialogOpen}
+                        onClose={() => setRuleImportDialogOpen(false)}
+                        onImported={handleImported}
+                    />
+
+                    {/* Add/Edit Proxy Profile Dialog */}
+                    <Dialog
+                        open={profileDialogOpen}
+                        onClose={handleCloseProfileDialog}
+                        maxWidth="sm"
+                        fullWidth>
+                        <DialogTitle>
+                            {editingProfile
+                                ? t("editProxyProfile")
+                                : t("addProxyProfile")}
+                        </DialogTitle>
+                        <DialogContent>
+                            {editingProfile &&
+                                !generalSettingsService.hasProxyServer(
+                                    editingProfile
+                                ) && (
+                                    <Alert severity="warning" sx={{ mb: 1 }}>
+                                        {t("proxyProfileNoServerWarning")}
+                                    </Alert>
+                                )}
+                            <TextField
+                                autoFocus
+                                fullWidth
+                                label={t("proxyProfileName")}
+                                value={profileDraft.name}
+                                onChange={handleProfileDraftChange("name")}
+                                margin="dense"
+                                size="small"
+                                placeholder={t("proxyProfileNamePlaceholder")}
+                            />
+
+                            <FormControl
+                                size="small"
+                                margin="dense"
+                                sx={{ minWidth: 200 }}>
+                                <InputLabel>{t("proxyProtocol")}</InputLabel>
+                                <Select
+                                    value={profileDraft.scheme}
+                                    onChange={handleProfileSchemeChange}
+                                    label={t("proxyProtocol")}>
+                                    {PROXY_SCHEMES.map((scheme) => (
+                                        <MenuItem key={scheme} value={scheme}>
+                                            {scheme.toUpperCase()}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                            </FormControl>
+                            {profileDraft.scheme === "socks5" && (
+                                <Typography
+                                    variant="body2"
+                                    color="text.secondary">
+                                    {t("socks5RemoteDnsNote")}
+                                </Typography>
+                            )}
+                            {profileDraft.scheme === "socks4" && (
+                                <Typography
+                                    variant="body2"
+                                    color="text.secondary">
+                                    {t("socks4LocalDnsNote")}
+                                </Typography>
+                            )}
+
+                            <TextField
+                                fullWidth
+                                label={t("proxyServerAddress")}
+                                value={profileDraft.address}
+                                onChange={handleProfileDraftChange("address")}
+                                margin="dense"
+                                size="small"
+                                helperText={t("proxyServerAddressHelper")}
+                            />
+
+                            <TextField
+                                fullWidth
+                                label={t("proxyServerPort")}
+                                type="number"
+                                value={profileDraft.port}
+                                onChange={handleProfileDraftChange("port")}
+                                margin="dense"
+                                size="small"
+                            />
+
+                            <Typography
+                                variant="subtitle2"
+                                sx={{ mt: 2, mb: 1, color: "text.secondary" }}>
+                                {t("proxyAuthSettings")}
+                            </Typography>
+
+                            <TextField
+                                fullWidth
+                                label={t("username")}
+                                value={profileDraft.username}
+                                onChange={handleProfileDraftChange("username")}
+                                margin="dense"
+                                size="small"
+                            />
+
+                            <TextField
+                                fullWidth
+                                label={t("password")}
+                                type="password"
+                                value={profileDraft.password}
+                                onChange={handleProfileDraftChange("password")}
+                                margin="dense"
+                                size="small"
+                            />
+
+                            <Typography
+                                variant="subtitle2"
+                                sx={{ mt: 2, color: "text.secondary" }}>
+                                {t("fallbackProxies")}
+                            </Typography>
+                            <Typography
+                                variant="body2"
+                                color="text.secondary"
+                                sx={{ mb: 1 }}>
+                                {t("fallbackProxiesHelper")}
+                            </Typography>
+
+                            <FallbackProxyList
+                                fallbacks={profileDraft.fallbacks || []}
+                                onChange={(fallbacks) =>
+                                    setProfileDraft((prev) => ({
+                                        ...prev,
+                                        fallbacks
+                                    }))
+                                }
+                                onTest={(endpoint, index) =>
+                                    handleTestProxy({
+                                        ...endpoint,
+                                        name: t("fallbackProxyTestName", {
+                                            name:
+                                                profileDraft.name ||
+                                                t("proxyProfileName"),
+                                            index: String(index + 1)
+                                        })
+                                    })
+                                }
+                            />
+
+                            <FormControlLabel
+                                control={
+                                    <Switch
+                                        checked={
+                                            !!profileDraft.fallbackToDirect
+                                        }
+                                        onChange={(event) =>
+                                            setProfileDraft((prev) => ({
+                                                ...prev,
+                                                fallbackToDirect:
+                                                    event.target.checked
+                                            }))
+                                        }
+                                        size="small"
+                                    />
+                                }
+                                label={t("fallbackToDirect")}
+                                sx={{ mt: 1 }}
+                            />
+                        </DialogContent>
+                        <DialogActions>
+                            <Button
+                                onClick={handleCloseProfileDialog}
+                                size="small">
+                                {t("cancel")}
+                            </Button>
+                            <Button
+                                onClick={handleSaveProfile}
+                                variant="contained"
+                                size="small">
+                                {editingProfile ? t("save") : t("add")}
+                            </Button>
+                        </DialogActions>
+                    </Dialog>
+
                     {/* Test Proxy Dialog */}
                     <Dialog
                         open={testDialogOpen}
                         onClose={handleCloseTestDialog}
                         maxWidth="sm"
                         fullWidth>
-                        <DialogTitle>{t("testProxyDialog")}</DialogTitle>
+                        <DialogTitle>
+                            {t("testProxyDialog")}
+                            {testProfile ? ` - ${testProfile.name}` : ""}
+                        </DialogTitle>
                         <DialogContent>
                             <TextField
                                 autoFocus
@@ -779,6 +1856,26 @@ function Options() {
                                 placeholder="https://www.google.com"
                                 helperText={t("testTargetUrlHelper")}
                             />
+                            {pacCheck && (
+                                <Alert
+                                    severity={pacCheck.error ? "error" : "info"}
+                                    sx={{ mt: 2 }}>
+                                    {pacCheck.error
+                                        ? t("pacDirectiveCheckFailed", {
+                                              error: pacCheck.error
+                                          })
+                                        : t("pacDirectiveResult", {
+                                              directive: pacCheck.result
+                                          })}
+                                    {testProfile?.scheme === "socks5" && (
+                                        <Typography
+                                            variant="body2"
+                                            sx={{ mt: 0.5 }}>
+                                            {t("socks5RemoteDnsNote")}
+                                        </Typography>
+                                    )}
+                                </Alert>
+                            )}
                             {testResult && (
                                 <Box
                                     sx={{
@@ -0,0 +1,98 @@
+import { Add, RestartAlt } from "@mui/icons-material"
+import { Box, Button, Chip, TextField, Typography } from "@mui/material"
+import { useState } from "react"
+
+import {
+    DEFAULT_IGNORED_ERRORS,
+    normalizeErrorCode
+} from "~utils/error-classifier"
+
+import { t } from "../utils/i18n"
+
+interface IgnoredErrorsEditorProps {
+    ignoredErrors: string[]
+    onChange: (ignoredErrors: string[]) => void
+}
+
+/**
+ * Edits the net::ERR_* codes the monitor doesn't record
+ */
+function IgnoredErrorsEditor(props: IgnoredErrorsEditorProps) {
+    const { ignoredErrors, onChange } = props
+    const [newError, setNewError] = useState("")
+    const [invalid, setInvalid] = useState(false)
+
+    const handleAdd = () => {
+        const code = normalizeErrorCode(newError)
+        if (!code) {
+            setInvalid(true)
+            return
+        }
+        if (!ignoredErrors.includes(code)) {
+            onChange([...ignoredErrors, code])
+        }
+        setNewError("")
+        setInvalid(false)
+    }
+
+    return (
+        <Box sx={{ mt: 2 }}>
+            <Typography variant="body2" sx={{ mb: 1 }}>
+                {t("ignoredErrors")}
+            </Typography>
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, mb: 1 }}>
+                {ignoredErrors.map((error) => (
+                    <Chip
+                        key={error}
+                        label={error}
+                        size="small"
+                        onDelete={() =>
+                            onChange(ignoredErrors.filter((e) => e !== error))
+                        }
+                    />
+                ))}
+            </Box>
+            <Box sx={{ display: "flex", alignItems: "flex-start", gap: 1 }}>
+                <TextField
+                    size="small"
+                    value={newError}
+                    onChange={(event) => {
+                        setNewError(event.target.value)
+                        setInvalid(false)
+                    }}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                            event.preventDefault()
+                            handleAdd()
+                        }
+                    }}
+                    placeholder="net::ERR_NAME_NOT_RESOLVED"
+                    error={invalid}
+                    helperText={
+                        invalid
+                            ? t("ignoredErrorInvalid")
+                            : t("ignoredErrorsHelper")
+                    }
+                    sx={{ flex: 1 }}
+                />
+                <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<Add />}
+                    onClick={handleAdd}
+                    sx={{ mt: 0.5 }}>
+                    {t("add")}
+                </Button>
+                <Button
+                    size="small"
+                    startIcon={<RestartAlt />}
+                    onClick={() => onChange(DEFAULT_IGNORED_ERRORS)}
+                    sx={{ mt: 0.5 }}>
+                    {t("resetToDefaults")}
+                </Button>
+            </Box>
+        </Box>
+    )
+}
+
+export default IgnoredErrorsEditor
@@ -0,0 +1,228 @@
+import { DeleteSweep, Download } from "@mui/icons-material"
+import {
+    Box,
+    Button,
+    LinearProgress,
+    Paper,
+    ToggleButton,
+    ToggleButtonGroup,
+    Typography
+} from "@mui/material"
+import { useEffect, useState } from "react"
+
+import requestHistoryService from "~request-history-service"
+import {
+    exportRequestsAsCsv,
+    RESPONSE_TIME_BUCKETS,
+    SLOW_RESPONSE_KEY,
+    summarizeRequests,
+    type InsightCount
+} from "~utils/request-insights"
+import { downloadTextFile } from "~utils/util"
+
+import type { FailedRequest } from "../types/common"
+import { STORAGE_KEYS } from "../types/common"
+import { t } from "../utils/i18n"
+
+// Entries shown per list, the CSV export has everything
+const LIST_LIMIT = 10
+
+const HOUR_MS = 60 * 60 * 1000
+const TIME_RANGES: { key: string; labelKey: string; duration: number }[] = [
+    { key: "1h", labelKey: "insightsRangeHour", duration: HOUR_MS },
+    { key: "24h", labelKey: "insightsRangeDay", duration: 24 * HOUR_MS },
+    { key: "7d", labelKey: "insightsRangeWeek", duration: 7 * 24 * HOUR_MS },
+    {
+        key: "30d",
+        labelKey: "insightsRangeMonth",
+        duration: 30 * 24 * HOUR_MS
+    },
+    { key: "all", labelKey: "insightsRangeAll", duration: 0 }
+]
+
+const formatSeconds = (ms: number) => `${ms / 1000} s`
+
+const RESPONSE_TIME_LABELS = [
+    ...RESPONSE_TIME_BUCKETS.map((limit, index) =>
+        index === 0
+            ? `< ${formatSeconds(limit)}`
+            : `${formatSeconds(RESPONSE_TIME_BUCKETS[index - 1])} – ${formatSeconds(limit)}`
+    ),
+    `≥ ${formatSeconds(RESPONSE_TIME_BUCKETS[RESPONSE_TIME_BUCKETS.length - 1])}`
+]
+
+interface InsightBarsProps {
+    title: string
+    items: { label: string; count: number }[]
+}
+
+function InsightBars(props: InsightBarsProps) {
+    const { title, items } = props
+    const max = Math.max(1, ...items.map((item) => item.count))
+    return (
+        <Paper variant="outlined" sx={{ p: 2, flex: "1 1 320px" }}>
+            <Typography variant="subtitle1" sx={{ mb: 1 }}>
+                {title}
+            </Typography>
+            {items.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                    {t("insightsNoData")}
+                </Typography>
+            ) : (
+                items.map((item) => (
+                    <Box key={item.label} sx={{ mb: 1 }}>
+                        <Box
+                            sx={{
+                                display: "flex",
+                                justifyContent: "space-between",
+                                gap: 1
+                            }}>
+                            <Typography
+                                variant="body2"
+                                sx={{ wordBreak: "break-all" }}>
+                                {item.label}
+                            </Typography>
+                            <Typography variant="body2" color="text.secondary">
+                                {item.count}
+                            </Typography>
+                        </Box>
+                        <LinearProgress
+                            variant="determinate"
+                            value={(item.count / max) * 100}
+                        />
+                    </Box>
+                ))
+            )}
+        </Paper>
+    )
+}
+
+const toBarItems = (counts: InsightCount[], label = (key: string) => key) =>
+    counts
+        .slice(0, LIST_LIMIT)
+        .map((entry) => ({ label: label(entry.key), count: entry.count }))
+
+interface InsightsPanelProps {
+    onMessage: (message: string) => void
+}
+
+/**
+ * Network Insights tab: statistics of the persisted failed request history
+ */
+function InsightsPanel(props: InsightsPanelProps) {
+    const { onMessage } = props
+    const [history, setHistory] = useState<FailedRequest[]>([])
+    const [range, setRange] = useState("24h")
+
+    useEffect(() => {
+        requestHistoryService.getHistory().then(setHistory)
+        // The background appends failures while the page is open
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            area: string
+        ) => {
+            if (area === "local" && changes[STORAGE_KEYS.REQUEST_HISTORY]) {
+                requestHistoryService.getHistory().then(setHistory)
+            }
+        }
+        chrome.storage.onChanged.addListener(handleStorageChange)
+        return () =>
+            chrome.storage.onChanged.removeListener(handleStorageChange)
+    }, [])
+
+    const duration = TIME_RANGES.find((r) => r.key === range)?.duration || 0
+    const since = duration ? Date.now() - duration : 0
+    const insights = summarizeRequests(history, since)
+
+    const handleExport = () => {
+        const date = new Date().toISOString().substring(0, 10)
+        downloadTextFile(
+            `network-insights-${date}.csv`,
+            exportRequestsAsCsv(history.filter((r) => r.timestamp >= since)),
+            "text/csv"
+        )
+    }
+
+    const handleClear = async () => {
+        await requestHistoryService.clearHistory()
+        setHistory([])
+        onMessage(t("insightsCleared"))
+    }
+
+    return (
+        <Box>
+            <Box
+                sx={{
+                    display: "flex",
+                    alignItems: "center",
+                    flexWrap: "wrap",
+                    gap: 2,
+                    mb: 2
+                }}>
+                <ToggleButtonGroup
+                    size="small"
+                    exclusive
+                    value={range}
+                    onChange={(_, value) => value && setRange(value)}>
+                    {TIME_RANGES.map((r) => (
+                        <ToggleButton key={r.key} value={r.key}>
+                            {t(r.labelKey)}
+                        </ToggleButton>
+                    ))}
+                </ToggleButtonGroup>
+                <Typography variant="body2" color="text.secondary">
+                    {t("insightsTotal", { count: insights.total.toString() })}
+                </Typography>
+                <Box sx={{ flexGrow: 1 }} />
+                <Button
+                    size="small"
+                    variant="outlined"
+                    startIcon={<Download />}
+                    disabled={insights.total === 0}
+                    onClick={handleExport}>
+                    {t("insightsExportCsv")}
+                </Button>
+                <Button
+                    size="small"
+                    color="error"
+                    startIcon={<DeleteSweep />}
+                    disabled={history.length === 0}
+                    onClick={handleClear}>
+                    {t("insightsClear")}
+                </Button>
+            </Box>
+
+            <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+                <InsightBars
+                    title={t("insightsTopHostnames")}
+                    items={toBarItems(insights.hostnames)}
+                />
+                <InsightBars
+                    title={t("insightsErrorBreakdown")}
+                    items={toBarItems(insights.errors, (key) =>
+                        key === SLOW_RESPONSE_KEY
+                            ? t("insightsSlowResponse")
+                            : key
+                    )}
+                />
+                <InsightBars
+                    title={t("insightsResponseTimes")}
+                    items={
+                        insights.responseTimes.some((count) => count > 0)
+                            ? insights.responseTimes.map((count, index) => ({
+                                  label: RESPONSE_TIME_LABELS[index],
+                                  count
+                              }))
+                            : []
+                    }
+                />
+                <InsightBars
+                    title={t("insightsTabSites")}
+                    items={toBarItems(insights.tabSites)}
+                />
+            </Box>
+        </Box>
+    )
+}
+
+export default InsightsPanel
@@ -0,0 +1,252 @@
+import { UploadFile } from "@mui/icons-material"
+import {
+    Alert,
+    Box,
+    Button,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControlLabel,
+    Radio,
+    RadioGroup,
+    Typography
+} from "@mui/material"
+import { useEffect, useState } from "react"
+
+import generalSettingsService from "~general-settings-service"
+import proxyRuleService from "~proxy-rule-service"
+import { parseRulesFile } from "~utils/rule-transfer"
+
+import { t } from "../utils/i18n"
+import { describeRuleStorageLimit } from "./rule-storage-limit"
+
+// Number of invalid entries listed in the preview
+const PREVIEW_INVALID_LIMIT = 20
+
+interface RuleImportDialogProps {
+    open: boolean
+    onClose: () => void
+    onImported: (message: string) => void
+}
+
+function RuleImportDialog(props: RuleImportDialogProps) {
+    const { open, onClose, onImported } = props
+    const [fileName, setFileName] = useState("")
+    const [preview, setPreview] = useState<ReturnType<
+        typeof parseRulesFile
+    > | null>(null)
+    const [parseError, setParseError] = useState<string | null>(null)
+    const [mode, setMode] = useState<"merge" | "replace">("merge")
+    const [importing, setImporting] = useState(false)
+    // Why the previewed rules don't fit into storage with the selected mode
+    const [capacityError, setCapacityError] = useState<string | null>(null)
+
+    useEffect(() => {
+        setCapacityError(null)
+        if (!preview || preview.rules.length === 0) {
+            return
+        }
+        let cancelled = false
+        proxyRuleService
+            .checkImportCapacity(preview.rules, mode)
+            .catch((error) => {
+                if (!cancelled) {
+                    setCapacityError(describeRuleStorageLimit(error) ?? null)
+                }
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [preview, mode])
+
+    const handleClose = () => {
+        setFileName("")
+        setPreview(null)
+        setParseError(null)
+        setMode("merge")
+        onClose()
+    }
+
+    const handleFileChange = async (
+        event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const file = event.target.files?.[0]
+        event.target.value = ""
+        if (!file) {
+            return
+        }
+        setFileName(file.name)
+        setPreview(null)
+        setParseError(null)
+        try {
+            setPreview(parseRulesFile(await file.text()))
+        } catch (error) {
+            console.error("Error parsing rules file:", error)
+            setParseError(t("ruleImportParseFailed"))
+        }
+    }
+
+    /**
+     * Save the parsed rules with the selected mode
+     * Rules pointing at a profile that does not exist here fall back to the default profile
+     */
+    const handleImport = async () => {
+        if (!preview) {
+            return
+        }
+        setImporting(true)
+        try {
+            const settings = await generalSettingsService.getSettings()
+            const profileIds = new Set(settings.proxyProfiles.map((p) => p.id))
+            const rules = preview.rules.map((rule) =>
+                rule.proxyProfileId && !profileIds.has(rule.proxyProfileId)
+                    ? { ...rule, proxyProfileId: undefined }
+                    : rule
+            )
+            const { added, skipped } = await proxyRuleService.importRules(
+                rules,
+                mode
+            )
+            await chrome.runtime.sendMessage({
+                action: "configureSelectiveProxy"
+            })
+            onImported(
+                t("ruleImportSuccess", {
+                    added: added.toString(),
+                    skipped: skipped.toString()
+                })
+            )
+            handleClose()
+        } catch (error) {
+            console.error("Error importing rules:", error)
+            setParseError(
+                describeRuleStorageLimit(error) ?? t("ruleImportFailed")
+            )
+        } finally {
+            setImporting(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+            <DialogTitle>{t("importRules")}</DialogTitle>
+            <DialogContent>
+                <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ mb: 2 }}>
+                    {t("importRulesHelper")}
+                </Typography>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                    <Button
+                        variant="outlined"
+                        size="small"
+                        component="label"
+                        startIcon={<UploadFile />}>
+                        {t("chooseFile")}
+                        <input
+                            hidden
+                            type="file"
+                            accept=".json,.txt,.list,application/json,text/plain"
+                            onChange={handleFileChange}
+                        />
+                    </Button>
+                    <Typography variant="body2" color="text.secondary">
+                        {fileName}
+                    </Typography>
+                </Box>
+
+                {parseError && (
+                    <Alert severity="error" sx={{ mt: 2 }}>
+                        {parseError}
+                    </Alert>
+                )}
+
+                {preview && (
+                    <Box sx={{ mt: 2 }}>
+                        <Typography variant="subtitle2">
+                            {t("ruleImportPreview", {
+                                count: preview.rules.length.toString()
+                            })}
+                        </Typography>
+                        {preview.format === "autoproxy" && (
+                            <Typography variant="body2" color="text.secondary">
+                                {t("ruleImportFormatAutoProxy")}
+                            </Typography>
+                        )}
+                        {capacityError && (
+                            <Alert severity="error" sx={{ mt: 1 }}>
+                                {capacityError}
+                                {preview.format === "autoproxy" && (
+                                    <Box>{t("ruleImportUseSubscription")}</Box>
+                                )}
+                            </Alert>
+                        )}
+                        {preview.invalid.length > 0 && (
+                            <Alert severity="warning" sx={{ mt: 1 }}>
+                                {t("ruleImportInvalid", {
+                                    count: preview.invalid.length.toString()
+                                })}
+                                <Box
+                                    component="ul"
+                                    sx={{
+                                        m: 0,
+                                        pl: 2,
+                                        wordBreak: "break-all"
+                                    }}>
+                                    {preview.invalid
+                                        .slice(0, PREVIEW_INVALID_LIMIT)
+                                        .map((entry, index) => (
+                                            <li key={index}>{entry}</li>
+                                        ))}
+                                </Box>
+                            </Alert>
+                        )}
+                        <RadioGroup
+                            value={mode}
+                            onChange={(e) =>
+                                setMode(e.target.value as "merge" | "replace")
+                            }
+                            sx={{ mt: 2 }}>
+                            <FormControlLabel
+                                value="merge"
+                                control={<Radio size="small" />}
+                                label={t("ruleImportMerge")}
+                            />
+                            <FormControlLabel
+                                value="replace"
+                                control={<Radio size="small" />}
+                                label={t("ruleImportReplace")}
+                            />
+                        </RadioGroup>
+                        {mode === "replace" && (
+                            <Alert severity="warning" sx={{ mt: 1 }}>
+                                {t("ruleImportReplaceWarning")}
+                            </Alert>
+                        )}
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose} size="small">
+                    {t("cancel")}
+                </Button>
+                <Button
+                    onClick={handleImport}
+                    variant="contained"
+                    size="small"
+                    disabled={
+                        importing ||
+                        !preview ||
+                        preview.rules.length === 0 ||
+                        !!capacityError
+                    }>
+                    {t("import")}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    )
+}
+
+export default RuleImportDialog
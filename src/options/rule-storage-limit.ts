@@ -0,0 +1,25 @@
+import { RuleStorageLimitError } from "~utils/storage"
+
+import { t } from "../utils/i18n"
+
+// Translation key of the message for each storage limit
+const LIMIT_MESSAGES: Record<RuleStorageLimitError["limit"], string> = {
+    count: "ruleStorageTooManyRules",
+    itemBytes: "ruleStorageItemTooLarge",
+    totalBytes: "ruleStorageTotalTooLarge"
+}
+
+/**
+ * Explain why rules could not be saved
+ * @returns The message for storage limit errors, undefined for other errors
+ */
+export function describeRuleStorageLimit(error: unknown): string | undefined {
+    if (!(error instanceof RuleStorageLimitError)) {
+        return undefined
+    }
+    return t(LIMIT_MESSAGES[error.limit], {
+        count: error.size.toString(),
+        size: error.size.toString(),
+        max: error.max.toString()
+    })
+}
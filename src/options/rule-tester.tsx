@@ -0,0 +1,123 @@
+import { PlayArrow } from "@mui/icons-material"
+import { Alert, Box, Button, TextField, Typography } from "@mui/material"
+import { useState } from "react"
+
+import requestMonitorService from "~request-monitor-service"
+import pacEvaluator from "~utils/pac-evaluator"
+import { findMatchingRule, getPacUrl, getRuleType } from "~utils/rule-matcher"
+
+import type { ProxyRule } from "../types/common"
+import { t } from "../utils/i18n"
+import { RULE_TYPE_OPTIONS } from "./rule-type-options"
+
+interface RuleTestResult {
+    directive?: string
+    rule?: ProxyRule
+    error?: string
+}
+
+/**
+ * Runs a URL through the generated PAC script in the sandbox
+ * The rule shown comes from the shared rule matcher the script is compiled from,
+ * the live proxy settings are never changed
+ */
+function RuleTester() {
+    const [url, setUrl] = useState("")
+    const [testing, setTesting] = useState(false)
+    const [result, setResult] = useState<RuleTestResult | null>(null)
+
+    const handleTest = async () => {
+        const target = /^[a-z][a-z0-9+.-]*:\/\//i.test(url.trim())
+            ? url.trim()
+            : `https://${url.trim()}`
+        if (!getPacUrl(target)) {
+            setResult({ error: t("ruleTesterInvalidUrl") })
+            return
+        }
+        setTesting(true)
+        try {
+            const { pacScript, proxyRules } =
+                await requestMonitorService.getGeneratedPac()
+            const evaluation = await pacEvaluator.evaluate(pacScript, target)
+            setResult({
+                directive: evaluation.result,
+                rule: findMatchingRule(proxyRules, target),
+                error: evaluation.error
+            })
+        } catch (error) {
+            setResult({
+                error: error instanceof Error ? error.message : String(error)
+            })
+        } finally {
+            setTesting(false)
+        }
+    }
+
+    return (
+        <Box sx={{ mb: 2 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                {t("ruleTester")}
+            </Typography>
+            <Box sx={{ display: "flex", alignItems: "flex-start", gap: 1 }}>
+                <TextField
+                    size="small"
+                    fullWidth
+                    value={url}
+                    onChange={(event) => {
+                        setUrl(event.target.value)
+                        setResult(null)
+                    }}
+                    onKeyDown={(event) => {
+                        if (event.key === "Enter" && url.trim()) {
+                            event.preventDefault()
+                            handleTest()
+                        }
+                    }}
+                    placeholder="https://www.example.com/"
+                    helperText={t("ruleTesterHelper")}
+                />
+                <Button
+                    variant="outlined"
+                    size="small"
+                    startIcon={<PlayArrow />}
+                    disabled={!url.trim() || testing}
+                    onClick={handleTest}
+                    sx={{ mt: 0.5, flexShrink: 0 }}>
+                    {t("ruleTesterRun")}
+                </Button>
+            </Box>
+            {result &&
+                (result.error ? (
+                    <Alert severity="error" sx={{ mt: 1 }}>
+                        {result.error}
+                    </Alert>
+                ) : (
+                    <Alert
+                        severity={
+                            result.directive === "DIRECT" ? "info" : "success"
+                        }
+                        sx={{ mt: 1 }}>
+                        <Typography
+                            variant="body2"
+                            sx={{ fontFamily: "monospace" }}>
+                            {result.directive}
+                        </Typography>
+                        <Typography variant="body2">
+                            {result.rule
+                                ? t("ruleTesterMatchedRule", {
+                                      pattern: result.rule.pattern,
+                                      type: t(
+                                          RULE_TYPE_OPTIONS[
+                                              getRuleType(result.rule)
+                                          ].label
+                                      )
+                                  })
+                                : t("ruleTesterNoRule")}
+                        </Typography>
+                    </Alert>
+                ))}
+        </Box>
+    )
+}
+
+export default RuleTester
@@ -0,0 +1,38 @@
+import type { ProxyRuleType } from "../types/common"
+
+// Translation keys and placeholder shown for each rule type
+export const RULE_TYPE_OPTIONS: Record<
+    ProxyRuleType,
+    { label: string; helper: string; placeholder: string }
+> = {
+    domain: {
+        label: "ruleTypeDomain",
+        helper: "ruleTypeDomainHelper",
+        placeholder: "google.com"
+    },
+    host: {
+        label: "ruleTypeHost",
+        helper: "ruleTypeHostHelper",
+        placeholder: "www.google.com"
+    },
+    wildcard: {
+        label: "ruleTypeWildcard",
+        helper: "ruleTypeWildcardHelper",
+        placeholder: "api.*.example.com"
+    },
+    regex: {
+        label: "ruleTypeRegex",
+        helper: "ruleTypeRegexHelper",
+        placeholder: "^http://[^/]*\\.example\\.com/api/"
+    },
+    url_prefix: {
+        label: "ruleTypeUrlPrefix",
+        helper: "ruleTypeUrlPrefixHelper",
+        placeholder: "http://example.com/api/"
+    },
+    cidr: {
+        label: "ruleTypeCidr",
+        helper: "ruleTypeCidrHelper",
+        placeholder: "10.0.0.0/8"
+    }
+}
@@ -0,0 +1,466 @@
+import { Add, Delete, Edit, Refresh } from "@mui/icons-material"
+import {
+    Alert,
+    Box,
+    Button,
+    Chip,
+    CircularProgress,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    FormControl,
+    IconButton,
+    InputLabel,
+    List,
+    ListItem,
+    ListItemSecondaryAction,
+    ListItemText,
+    MenuItem,
+    Select,
+    Switch,
+    TextField,
+    Typography
+} from "@mui/material"
+import { useEffect, useState } from "react"
+
+import subscriptionService from "~subscription-service"
+import { generateId } from "~utils/util"
+
+import type {
+    ProxyProfile,
+    RuleSubscription,
+    RuleSubscriptionFormat
+} from "../types/common"
+import { SUBSCRIPTION_REFRESH_INTERVALS } from "../types/common"
+import { t } from "../utils/i18n"
+
+const FORMAT_LABEL_KEYS: Record<RuleSubscriptionFormat, string> = {
+    text: "subscriptionFormatText",
+    autoproxy: "subscriptionFormatAutoProxy",
+    json: "subscriptionFormatJson"
+}
+
+const createEmptySubscription = (): RuleSubscription => ({
+    id: generateId(),
+    name: "",
+    url: "",
+    format: "autoproxy",
+    refreshIntervalMinutes: 24 * 60,
+    enabled: true,
+    ruleCount: 0
+})
+
+const formatInterval = (minutes: number) =>
+    minutes % (24 * 60) === 0
+        ? t("intervalDays", { count: (minutes / (24 * 60)).toString() })
+        : t("intervalHours", { count: (minutes / 60).toString() })
+
+interface SubscriptionsPanelProps {
+    proxyProfiles: ProxyProfile[]
+    onMessage: (message: string) => void
+}
+
+function SubscriptionsPanel(props: SubscriptionsPanelProps) {
+    const { proxyProfiles, onMessage } = props
+    const [subscriptions, setSubscriptions] = useState<RuleSubscription[]>([])
+    const [editingSubscription, setEditingSubscription] =
+        useState<RuleSubscription | null>(null)
+    const [isNewSubscription, setIsNewSubscription] = useState(false)
+    const [refreshingIds, setRefreshingIds] = useState<string[]>([])
+
+    useEffect(() => {
+        subscriptionService.getSubscriptions().then(setSubscriptions)
+        // Fetches run in the background, show their status as it is written
+        const handleStorageChange = (
+            changes: { [key: string]: chrome.storage.StorageChange },
+            area: string
+        ) => {
+            if (
+                area === "local" &&
+                Object.keys(changes).some((key) =>
+                    subscriptionService.isSubscriptionKey(key)
+                )
+            ) {
+                subscriptionService.getSubscriptions().then(setSubscriptions)
+            }
+        }
+        chrome.storage.onChanged.addListener(handleStorageChange)
+        return () =>
+            chrome.storage.onChanged.removeListener(handleStorageChange)
+    }, [])
+
+    const getProfileName = (proxyProfileId?: string) =>
+        proxyProfiles.find((p) => p.id === proxyProfileId)?.name ||
+        t("useDefaultProxyProfile")
+
+    const handleAdd = () => {
+        setEditingSubscription(createEmptySubscription())
+        setIsNewSubscription(true)
+    }
+
+    const handleEdit = (subscription: RuleSubscription) => {
+        setEditingSubscription({ ...subscription })
+        setIsNewSubscription(false)
+    }
+
+    const handleCloseDialog = () => {
+        setEditingSubscription(null)
+    }
+
+    const handleSave = async () => {
+        if (!editingSubscription) {
+            return
+        }
+        const name = editingSubscription.name.trim()
+        const url = editingSubscription.url.trim()
+        if (!name || !/^https?:\/\//i.test(url)) {
+            onMessage(t("subscriptionFieldsRequired"))
+            return
+        }
+        const subscription = { ...editingSubscription, name, url }
+        try {
+            if (isNewSubscription) {
+                setSubscriptions(
+                    await subscriptionService.addSubscription(subscription)
+                )
+            } else {
+                const previous = subscriptions.find(
+                    (s) => s.id === subscription.id
+                )
+                // A new address or format invalidates the fetched rules
+                const changedSource =
+                    previous?.url !== subscription.url ||
+                    previous?.format !== subscription.format
+                await subscriptionService.updateSubscription(
+                    subscription.id,
+                    changedSource
+                        ? { ...subscription, lastFetchTime: undefined }
+                        : subscription
+                )
+                setSubscriptions(await subscriptionService.getSubscriptions())
+            }
+            setEditingSubscription(null)
+        } catch (error) {
+            console.error("Error saving subscription:", error)
+            onMessage(t("saveSettingsFailed"))
+        }
+    }
+
+    const handleDelete = async (subscriptionId: string) => {
+        setSubscriptions(
+            await subscriptionService.deleteSubscription(subscriptionId)
+        )
+    }
+
+    const handleToggle = async (subscription: RuleSubscription) => {
+        await subscriptionService.updateSubscription(subscription.id, {
+            enabled: !subscription.enabled
+        })
+        setSubscriptions(await subscriptionService.getSubscriptions())
+    }
+
+    const handleRefresh = async (subscription: RuleSubscription) => {
+        setRefreshingIds((ids) => [...ids, subscription.id])
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: "refreshSubscription",
+                subscriptionId: subscription.id
+            })
+            onMessage(
+                response?.success
+                    ? t("subscriptionRefreshed", {
+                          name: subscription.name,
+                          count: String(response.subscription.ruleCount)
+                      })
+                    : t("subscriptionRefreshFailed", {
+                          name: subscription.name
+                      })
+            )
+        } finally {
+            setRefreshingIds((ids) =>
+                ids.filter((id) => id !== subscription.id)
+            )
+        }
+    }
+
+    const renderStatus = (subscription: RuleSubscription) => {
+        if (!subscription.lastFetchTime) {
+            return t("subscriptionNeverFetched")
+        }
+        const lastFetch = new Date(subscription.lastFetchTime).toLocaleString()
+        if (subscription.lastError) {
+            return t("subscriptionLastFetchFailed", {
+                time: lastFetch,
+                error: subscription.lastError
+            })
+        }
+        return t("subscriptionLastFetchSucceeded", {
+            time: lastFetch,
+            count: subscription.ruleCount.toString(),
+            invalid: (subscription.invalidCount || 0).toString()
+        })
+    }
+
+    return (
+        <Box>
+            <Box
+                sx={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    alignItems: "center",
+                    mb: 2
+                }}>
+                <Typography variant="h6">{t("ruleSubscriptions")}</Typography>
+                <Button
+                    variant="contained"
+                    size="small"
+                    startIcon={<Add />}
+                    onClick={handleAdd}>
+                    {t("addSubscription")}
+                </Button>
+            </Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+                {t("ruleSubscriptionsHelper")}
+            </Typography>
+
+            {subscriptions.length === 0 ? (
+                <Alert severity="info">{t("noSubscriptionsMessage")}</Alert>
+            ) : (
+                <List dense>
+                    {subscriptions.map((subscription) => (
+                        <ListItem key={subscription.id} divider>
+                            <Switch
+                                size="small"
+                                checked={subscription.enabled}
+                                onChange={() => handleToggle(subscription)}
+                                sx={{ mr: 1 }}
+                            />
+                            <ListItemText
+                                primary={
+                                    <Box
+                                        sx={{
+                                            display: "flex",
+                                            alignItems: "center",
+                                            gap: 1
+                                        }}>
+                                        {subscription.name}
+                                        <Chip
+                                            label={t(
+                                                FORMAT_LABEL_KEYS[
+                                                    subscription.format
+                                                ]
+                                            )}
+                                            size="small"
+                                            variant="outlined"
+                                        />
+                                        <Chip
+                                            label={formatInterval(
+                                                subscription.refreshIntervalMinutes
+                                            )}
+                                            size="small"
+                                            variant="outlined"
+                                        />
+                                    </Box>
+                                }
+                                secondary={
+                                    <>
+                                        <Typography
+                                            component="span"
+                                            variant="body2"
+                                            sx={{
+                                                display: "block",
+                                                wordBreak: "break-all"
+                                            }}>
+                                            {subscription.url} →{" "}
+                                            {getProfileName(
+                                                subscription.proxyProfileId
+                                            )}
+                                        </Typography>
+                                        <Typography
+                                            component="span"
+                                            variant="caption"
+                                            color={
+                                                subscription.lastError
+                                                    ? "error"
+                                                    : "text.secondary"
+                                            }>
+                                            {renderStatus(subscription)}
+                                        </Typography>
+                                    </>
+                                }
+                                sx={{ pr: 14 }}
+                            />
+                            <ListItemSecondaryAction>
+                                <IconButton
+                                    edge="end"
+                                    aria-label="refresh"
+                                    size="small"
+                                    disabled={refreshingIds.includes(
+                                        subscription.id
+                                    )}
+                                    onClick={() => handleRefresh(subscription)}
+                                    sx={{ mr: 1 }}>
+                                    {refreshingIds.includes(subscription.id) ? (
+                                        <CircularProgress size={20} />
+                                    ) : (
+                                        <Refresh />
+                                    )}
+                                </IconButton>
+                                <IconButton
+                                    edge="end"
+                                    aria-label="edit"
+                                    size="small"
+                                    onClick={() => handleEdit(subscription)}
+                                    sx={{ mr: 1 }}>
+                                    <Edit />
+                                </IconButton>
+                                <IconButton
+                                    edge="end"
+                                    aria-label="delete"
+                                    size="small"
+                                    onClick={() =>
+                                        handleDelete(subscription.id)
+                                    }>
+                                    <Delete />
+                                </IconButton>
+                            </ListItemSecondaryAction>
+                        </ListItem>
+                    ))}
+                </List>
+            )}
+
+            <Dialog
+                open={editingSubscription !== null}
+                onClose={handleCloseDialog}
+                maxWidth="sm"
+                fullWidth>
+                <DialogTitle>
+                    {isNewSubscription
+                        ? t("addSubscription")
+                        : t("editSubscription")}
+                </DialogTitle>
+                {editingSubscription && (
+                    <DialogContent>
+                        <TextField
+                            autoFocus
+                            margin="dense"
+                            label={t("subscriptionName")}
+                            fullWidth
+                            size="small"
+                            value={editingSubscription.name}
+                            onChange={(e) =>
+                                setEditingSubscription({
+                                    ...editingSubscription,
+                                    name: e.target.value
+                                })
+                            }
+                        />
+                        <TextField
+                            margin="dense"
+                            label={t("subscriptionUrl")}
+                            placeholder="https://example.com/gfwlist.txt"
+                            fullWidth
+                            size="small"
+                            value={editingSubscription.url}
+                            onChange={(e) =>
+                                setEditingSubscription({
+                                    ...editingSubscription,
+                                    url: e.target.value
+                                })
+                            }
+                        />
+                        <FormControl fullWidth size="small" margin="dense">
+                            <InputLabel>{t("subscriptionFormat")}</InputLabel>
+                            <Select
+                                label={t("subscriptionFormat")}
+                                value={editingSubscription.format}
+                                onChange={(e) =>
+                                    setEditingSubscription({
+                                        ...editingSubscription,
+                                        format: e.target
+                                            .value as RuleSubscriptionFormat
+                                    })
+                                }>
+                                {(
+                                    Object.keys(
+                                        FORMAT_LABEL_KEYS
+                                    ) as RuleSubscriptionFormat[]
+                                ).map((format) => (
+                                    <MenuItem key={format} value={format}>
+                                        {t(FORMAT_LABEL_KEYS[format])}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                        <FormControl fullWidth size="small" margin="dense">
+                            <InputLabel>
+                                {t("subscriptionRefreshInterval")}
+                            </InputLabel>
+                            <Select
+                                label={t("subscriptionRefreshInterval")}
+                                value={
+                                    editingSubscription.refreshIntervalMinutes
+                                }
+                                onChange={(e) =>
+                                    setEditingSubscription({
+                                        ...editingSubscription,
+                                        refreshIntervalMinutes: Number(
+                                            e.target.value
+                                        )
+                                    })
+                                }>
+                                {SUBSCRIPTION_REFRESH_INTERVALS.map(
+                                    (minutes) => (
+                                        <MenuItem key={minutes} value={minutes}>
+                                            {formatInterval(minutes)}
+                                        </MenuItem>
+                                    )
+                                )}
+                            </Select>
+                        </FormControl>
+                        <FormControl fullWidth size="small" margin="dense">
+                            <InputLabel shrink>{t("proxyProfile")}</InputLabel>
+                            <Select
+                                label={t("proxyProfile")}
+                                notched
+                                displayEmpty
+                                value={editingSubscription.proxyProfileId || ""}
+                                onChange={(e) =>
+                                    setEditingSubscription({
+                                        ...editingSubscription,
+                                        proxyProfileId:
+                                            e.target.value || undefined
+                                    })
+                                }>
+                                <MenuItem value="">
+                                    {t("useDefaultProxyProfile")}
+                                </MenuItem>
+                                {proxyProfiles.map((profile) => (
+                                    <MenuItem
+                                        key={profile.id}
+                                        value={profile.id}>
+                                        {profile.name}
+                                    </MenuItem>
+                                ))}
+                            </Select>
+                        </FormControl>
+                    </DialogContent>
+                )}
+                <DialogActions>
+                    <Button onClick={handleCloseDialog} size="small">
+                        {t("cancel")}
+                    </Button>
+                    <Button
+                        onClick={handleSave}
+                        variant="contained"
+                        size="small">
+                        {t("save")}
+                    </Button>
+                </DialogActions>
+            </Dialog>
+        </Box>
+    )
+}
+
+export default SubscriptionsPanel
@@ -0,0 +1,350 @@
+import { UploadFile } from "@mui/icons-material"
+import {
+    Alert,
+    Box,
+    Button,
+    Chip,
+    Dialog,
+    DialogActions,
+    DialogContent,
+    DialogTitle,
+    List,
+    ListItem,
+    ListItemText,
+    Typography
+} from "@mui/material"
+import { useEffect, useState } from "react"
+
+import generalSettingsService from "~general-settings-service"
+import proxyRuleService from "~proxy-rule-service"
+import {
+    parseSwitchyOmegaBackup,
+    type SwitchyOmegaImportResult,
+    type SwitchyOmegaIssueReason
+} from "~utils/switchy-omega"
+
+import { t } from "../utils/i18n"
+import { describeRuleStorageLimit } from "./rule-storage-limit"
+import { RULE_TYPE_OPTIONS } from "./rule-type-options"
+
+// Number of rules listed in the preview, the rest is summarized
+const PREVIEW_RULE_LIMIT = 200
+
+const ISSUE_REASON_KEYS: Record<SwitchyOmegaIssueReason, string> = {
+    unsupportedProfileType: "omegaIssueUnsupportedProfileType",
+    unsupportedCondition: "omegaIssueUnsupportedCondition",
+    unsupportedScheme: "omegaIssueUnsupportedScheme",
+    unsupportedRuleListFormat: "omegaIssueUnsupportedRuleListFormat",
+    unknownTargetProfile: "omegaIssueUnknownTargetProfile",
+    invalidPattern: "omegaIssueInvalidPattern",
+    perProtocolProxies: "omegaIssuePerProtocolProxies",
+    defaultProfileCatchAll: "omegaIssueDefaultProfileCatchAll",
+    bypassCheckedFirst: "omegaIssueBypassCheckedFirst",
+    shadowedByCatchAll: "omegaIssueShadowedByCatchAll"
+}
+
+interface SwitchyOmegaImportDialogProps {
+    open: boolean
+    onClose: () => void
+    onImported: (message: string) => void
+}
+
+function SwitchyOmegaImportDialog(props: SwitchyOmegaImportDialogProps) {
+    const { open, onClose, onImported } = props
+    const [fileName, setFileName] = useState("")
+    const [preview, setPreview] = useState<SwitchyOmegaImportResult | null>(
+        null
+    )
+    const [parseError, setParseError] = useState<string | null>(null)
+    const [importing, setImporting] = useState(false)
+    // Why the previewed rules don't fit next to the current ones
+    const [capacityError, setCapacityError] = useState<string | null>(null)
+
+    useEffect(() => {
+        setCapacityError(null)
+        if (!preview || preview.proxyRules.length === 0) {
+            return
+        }
+        let cancelled = false
+        proxyRuleService
+            .checkImportCapacity(preview.proxyRules, "merge")
+            .catch((error) => {
+                if (!cancelled) {
+                    setCapacityError(describeRuleStorageLimit(error) ?? null)
+                }
+            })
+        return () => {
+            cancelled = true
+        }
+    }, [preview])
+
+    const handleClose = () => {
+        setFileName("")
+        setPreview(null)
+        setParseError(null)
+        onClose()
+    }
+
+    const handleFileChange = async (
+        event: React.ChangeEvent<HTMLInputElement>
+    ) => {
+        const file = event.target.files?.[0]
+        event.target.value = ""
+        if (!file) {
+            return
+        }
+        setFileName(file.name)
+        setPreview(null)
+        setParseError(null)
+        try {
+            setPreview(parseSwitchyOmegaBackup(await file.text()))
+        } catch (error) {
+            console.error("Error parsing SwitchyOmega backup:", error)
+            setParseError(
+                error instanceof Error ? error.message : t("unknownError")
+            )
+        }
+    }
+
+    const getProfileName = (proxyProfileId?: string) =>
+        preview?.proxyProfiles.find((p) => p.id === proxyProfileId)?.name || ""
+
+    /**
+     * Merge the preview into the current settings and rules
+     * Profiles pointing at an already configured server reuse that profile,
+     * rules whose pattern already exists are skipped
+     * Nothing is kept when the rules can't be saved: capacity is checked before
+     * saving the profiles, and the profiles are restored if saving the rules fails
+     */
+    const handleImport = async () => {
+        if (!preview) {
+            return
+        }
+        setImporting(true)
+        try {
+            const settings = await generalSettingsService.getSettings()
+            const proxyProfiles = [...settings.proxyProfiles]
+            const profileIds = new Map<string, string>()
+            for (const profile of preview.proxyProfiles) {
+                const existing = proxyProfiles.find(
+                    (p) =>
+                        p.scheme === profile.scheme &&
+                        p.address === profile.address &&
+                        p.port === profile.port
+                )
+                if (existing) {
+                    profileIds.set(profile.id, existing.id)
+                } else {
+                    proxyProfiles.push(profile)
+                    profileIds.set(profile.id, profile.id)
+                }
+            }
+            const defaultProxyProfileId =
+                settings.proxyProfiles.length > 0
+                    ? settings.defaultProxyProfileId
+                    : proxyProfiles[0]?.id || settings.defaultProxyProfileId
+            const rules = preview.proxyRules.map((rule) => ({
+                ...rule,
+                proxyProfileId: rule.proxyProfileId
+                    ? profileIds.get(rule.proxyProfileId)
+                    : undefined
+            }))
+            await proxyRuleService.checkImportCapacity(rules, "merge")
+
+            await generalSettingsService.saveSettings({
+                ...settings,
+                proxyProfiles,
+                defaultProxyProfileId
+            })
+            let importedRules: number
+            try {
+                importedRules = (
+                    await proxyRuleService.importRules(rules, "merge")
+                ).added
+            } catch (error) {
+                await generalSettingsService.saveSettings(settings)
+                throw error
+            }
+            await chrome.runtime.sendMessage({
+                action: "configureSelectiveProxy"
+            })
+            onImported(
+                t("omegaImportSuccess", {
+                    profiles: (
+                        proxyProfiles.length - settings.proxyProfiles.length
+                    ).toString(),
+                    rules: importedRules.toString()
+                })
+            )
+            handleClose()
+        } catch (error) {
+            console.error("Error importing SwitchyOmega backup:", error)
+            setParseError(
+                describeRuleStorageLimit(error) ?? t("omegaImportFailed")
+            )
+        } finally {
+            setImporting(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onClose={handleClose} maxWidth="md" fullWidth>
+            <DialogTitle>{t("importSwitchyOmega")}</DialogTitle>
+            <DialogContent>
+                <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{ mb: 2 }}>
+                    {t("importSwitchyOmegaHelper")}
+                </Typography>
+                <Box sx={{ display: "flex", alignItems: "center", gap: 2 }}>
+                    <Button
+                        variant="outlined"
+                        size="small"
+                        component="label"
+                        startIcon={<UploadFile />}>
+                        {t("chooseFile")}
+                        <input
+                            hidden
+                            type="file"
+                            accept=".bak,.json,application/json"
+                            onChange={handleFileChange}
+                        />
+                    </Button>
+                    <Typography variant="body2" color="text.secondary">
+                        {fileName}
+                    </Typography>
+                </Box>
+
+                {parseError && (
+                    <Alert severity="error" sx={{ mt: 2 }}>
+                        {parseError}
+                    </Alert>
+                )}
+
+                {preview && (
+                    <Box sx={{ mt: 2 }}>
+                        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                            {t("omegaPreviewProfiles", {
+                                count: preview.proxyProfiles.length.toString()
+                            })}
+                        </Typography>
+                        <List dense>
+                            {preview.proxyProfiles.map((profile) => (
+                                <ListItem key={profile.id} divider>
+                                    <ListItemText
+                                        primary={profile.name}
+                                        secondary={`${profile.scheme}://${profile.address}:${profile.port}`}
+                                    />
+                                </ListItem>
+                            ))}
+                        </List>
+
+                        <Typography variant="subtitle2" sx={{ mt: 2, mb: 1 }}>
+                            {t("omegaPreviewRules", {
+                                count: preview.proxyRules.length.toString()
+                            })}
+                        </Typography>
+                        <List dense sx={{ maxHeight: 240, overflow: "auto" }}>
+                            {preview.proxyRules
+                                .slice(0, PREVIEW_RULE_LIMIT)
+                                .map((rule) => (
+                                    <ListItem key={rule.id} divider>
+                                        <ListItemText
+                                            primary={rule.pattern}
+                                            secondary={
+                                                rule.action === "bypass"
+                                                    ? t("ruleActionBypass")
+                                                    : getProfileName(
+                                                          rule.proxyProfileId
+                                                      )
+                                            }
+                                        />
+                                        <Chip
+                                            label={t(
+                                                RULE_TYPE_OPTIONS[rule.type]
+                                                    .label
+                                            )}
+                                            size="small"
+                                            variant="outlined"
+                                        />
+                                    </ListItem>
+                                ))}
+                        </List>
+                        {preview.proxyRules.length > PREVIEW_RULE_LIMIT && (
+                            <Typography
+                                variant="caption"
+                                color="text.secondary">
+                                {t("omegaPreviewMoreRules", {
+                                    count: (
+                                        preview.proxyRules.length -
+                                        PREVIEW_RULE_LIMIT
+                                    ).toString()
+                                })}
+                            </Typography>
+                        )}
+
+                        {capacityError && (
+                            <Alert severity="error" sx={{ mt: 2 }}>
+                                {capacityError}
+                            </Alert>
+                        )}
+
+                        {preview.issues.length > 0 && (
+                            <>
+                                <Typography
+                                    variant="subtitle2"
+                                    sx={{ mt: 2, mb: 1 }}>
+                                    {t("omegaPreviewIssues", {
+                                        count: preview.issues.length.toString()
+                                    })}
+                                </Typography>
+                                <List
+                                    dense
+                                    sx={{ maxHeight: 200, overflow: "auto" }}>
+                                    {preview.issues.map((issue, index) => (
+                                        <ListItem key={index} divider>
+                                            <ListItemText
+                                                primary={`${issue.profileName}: ${issue.entry}`}
+                                                secondary={t(
+                                                    ISSUE_REASON_KEYS[
+                                                        issue.reason
+                                                    ],
+                                                    {
+                                                        entry:
+                                                            issue.conflictsWith ??
+                                                            ""
+                                                    }
+                                                )}
+                                            />
+                                        </ListItem>
+                                    ))}
+                                </List>
+                            </>
+                        )}
+                    </Box>
+                )}
+            </DialogContent>
+            <DialogActions>
+                <Button onClick={handleClose} size="small">
+                    {t("cancel")}
+                </Button>
+                <Button
+                    onClick={handleImport}
+                    variant="contained"
+                    size="small"
+                    disabled={
+                        importing ||
+                        !preview ||
+                        !!capacityError ||
+                        (preview.proxyProfiles.length === 0 &&
+                            preview.proxyRules.length === 0)
+                    }>
+                    {t("import")}
+                </Button>
+            </DialogActions>
+        </Dialog>
+    )
+}
+
+export default SwitchyOmegaImportDialog
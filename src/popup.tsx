@@ -8,20 +8,101 @@ import {
     Chip,
     FormControlLabel,
     IconButton,
+    MenuItem,
+    Select,
     Switch,
+    ToggleButton,
+    ToggleButtonGroup,
     Typography
 } from "@mui/material"
 import { useCallback, useEffect, useState } from "react"
 
-import { type FailedRequest } from "./types/common"
+import TabRoutePanel, { type OriginRoute } from "./components/tab-route-panel"
+import {
+    STORAGE_KEYS,
+    type FailedRequest,
+    type ProxyAuthFailure,
+    type ProxyProbeResult,
+    type ProxyProbeStatus,
+    type RequestRoute
+} from "./types/common"
+import {
+    classifyFailure,
+    type ErrorCategory,
+    type ProxyLikelihood
+} from "./utils/error-classifier"
 import { t } from "./utils/i18n"
+import {
+    RULE_DURATION_LABEL_KEYS,
+    RULE_DURATIONS,
+    type RuleDuration
+} from "./utils/rule-expiry"
+
+const CATEGORY_LABEL_KEYS: Record<ErrorCategory, string> = {
+    dns: "errorCategoryDns",
+    connection: "errorCategoryConnection",
+    tls: "errorCategoryTls",
+    timeout: "errorCategoryTimeout",
+    slow: "errorCategorySlow",
+    other: "errorCategoryOther"
+}
+
+const LIKELIHOOD_LABEL_KEYS: Record<ProxyLikelihood, string> = {
+    high: "proxyLikelihoodHigh",
+    medium: "proxyLikelihoodMedium",
+    low: "proxyLikelihoodLow"
+}
+
+const LIKELIHOOD_COLORS: Record<
+    ProxyLikelihood,
+    "success" | "info" | "default"
+> = {
+    high: "success",
+    medium: "info",
+    low: "default"
+}
+
+const PROBE_LABEL_KEYS: Record<ProxyProbeStatus, string> = {
+    proxyFixes: "probeProxyFixes",
+    failsBoth: "probeFailsBoth",
+    directWorks: "probeDirectWorks"
+}
+
+const PROBE_COLORS: Record<ProxyProbeStatus, "success" | "error" | "default"> =
+    {
+        proxyFixes: "success",
+        failsBoth: "error",
+        directWorks: "default"
+    }
+
+// Probe results that say a proxy rule won't help
+const UNHELPFUL_PROBE_STATUSES: ProxyProbeStatus[] = [
+    "failsBoth",
+    "directWorks"
+]
 
 function IndexPopup() {
     const [failedRequests, setFailedRequests] = useState<FailedRequest[]>([])
     const [loading, setLoading] = useState(true)
     const [proxyEnabled, setProxyEnabled] = useState(false)
+    const [authFailures, setAuthFailures] = useState<ProxyAuthFailure[]>([])
+    // "tab" lists the active tab's failures, "site" those of every tab on its site
+    const [scope, setScope] = useState<"tab" | "site">("tab")
+    const [probeResults, setProbeResults] = useState<
+        Record<string, ProxyProbeResult>
+    >({})
+    const [probing, setProbing] = useState<string[]>([])
+    // Hosts proxied for the active tab, undefined without a "Proxy this tab" override
+    const [tabProxyHosts, setTabProxyHosts] = useState<string[]>()
+    const [tabRoute, setTabRoute] = useState<{
+        url: string
+        route: RequestRoute
+        origins: OriginRoute[]
+    }>()
+    // How long rules added from the popup are kept
+    const [duration, setDuration] = useState<RuleDuration>("forever")
 
-    const getCurrentTabHostname = async () => {
+    const getCurrentTab = async () => {
         const [tab] = await chrome.tabs.query({
             active: true,
             currentWindow: true
@@ -35,7 +116,7 @@ function IndexPopup() {
                 console.error("Error parsing tab URL:", error)
             }
         }
-        return currentTabHostname
+        return { tabId: tab?.id, currentTabHostname }
     }
 
     const loadProxyEnabled = async () => {
@@ -49,27 +130,89 @@ function IndexPopup() {
         }
     }
 
+    const loadTabProxy = async () => {
+        try {
+            const { tabId } = await getCurrentTab()
+            const response = await chrome.runtime.sendMessage({
+                action: "getTabProxy",
+                tabId
+            })
+            setTabProxyHosts(response?.enabled ? response.hosts : undefined)
+        } catch (error) {
+            console.error("Error loading tab proxy:", error)
+        }
+    }
+
+    const loadTabRoute = async () => {
+        try {
+            const { tabId } = await getCurrentTab()
+            const response = await chrome.runtime.sendMessage({
+                action: "getTabRoute",
+                tabId
+            })
+            setTabRoute(response?.route ? response : undefined)
+        } catch (error) {
+            console.error("Error loading tab route:", error)
+        }
+    }
+
+    // Reloads the tab so requests sent before the override are proxied too
+    const handleTabProxyToggle = async (enabled: boolean) => {
+        try {
+            const { tabId, currentTabHostname } = await getCurrentTab()
+            const response = await chrome.runtime.sendMessage({
+                action: "setTabProxy",
+                tabId,
+                currentTabHostname,
+                enabled
+            })
+            if (response?.success && tabId !== undefined) {
+                await chrome.tabs.reload(tabId)
+            }
+            await loadTabProxy()
+            await loadTabRoute()
+        } catch (error) {
+            console.error("Error toggling tab proxy:", error)
+        }
+    }
+
+    const loadAuthFailures = async () => {
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: "getProxyAuthFailures"
+            })
+            setAuthFailures(response?.failures || [])
+        } catch (error) {
+            console.error("Error loading proxy auth failures:", error)
+        }
+    }
+
     const loadFailedRequests = useCallback(async () => {
         try {
-            const currentTabHostname = await getCurrentTabHostname()
+            const { tabId, currentTabHostname } = await getCurrentTab()
             const response = await chrome.runtime.sendMessage({
                 action: "getFailedRequests",
-                currentTabHostname
+                tabId,
+                currentTabHostname,
+                scope
             })
             setFailedRequests(response.failedRequests || [])
+            setProbeResults(response.probeResults || {})
         } catch (error) {
             console.error("Error loading failed requests:", error)
         } finally {
             setLoading(false)
         }
-    }, [])
+    }, [scope])
 
     const clearFailedRequests = async () => {
         try {
-            const currentTabHostname = await getCurrentTabHostname()
+            const { tabId, currentTabHostname } = await getCurrentTab()
             await chrome.runtime.sendMessage({
                 action: "clearFailedRequests",
-                currentTabHostname
+                tabId,
+                currentTabHostname,
+                scope
             })
             setFailedRequests([])
             window.close()
@@ -90,6 +233,7 @@ function IndexPopup() {
             } else {
                 await loadFailedRequests()
             }
+            await loadTabRoute()
         } catch (error) {
             console.error("Error toggling proxy:", error)
         }
@@ -97,10 +241,11 @@ function IndexPopup() {
 
     const addToProxyRules = async (hostname: string) => {
         try {
-            const currentTabHostname = await getCurrentTabHostname()
+            const { currentTabHostname } = await getCurrentTab()
             await chrome.runtime.sendMessage({
                 action: "addProxyRules",
                 hostnames: [hostname],
+                duration,
                 currentTabHostname
             })
             await chrome.runtime.sendMessage({
@@ -111,20 +256,52 @@ function IndexPopup() {
                 (request) => request.hostname !== hostname
             )
             setFailedRequests(updatedFailedRequests)
+            await loadTabRoute()
         } catch (error) {
             console.error("Error adding to proxy rules:", error)
         }
     }
 
+    const probeFailedRequest = async (failedRequest: FailedRequest) => {
+        setProbing((hostnames) => [...hostnames, failedRequest.hostname])
+        try {
+            const response = await chrome.runtime.sendMessage({
+                action: "probeFailedRequest",
+                failedRequest
+            })
+            if (response?.probeResult) {
+                setProbeResults((results) => ({
+                    ...results,
+                    [failedRequest.hostname]: response.probeResult
+                }))
+            }
+        } catch (error) {
+            console.error("Error probing failed request:", error)
+        } finally {
+            setProbing((hostnames) =>
+                hostnames.filter((h) => h !== failedRequest.hostname)
+            )
+        }
+    }
+
+    const isUnhelpful = (hostname: string) =>
+        UNHELPFUL_PROBE_STATUSES.includes(probeResults[hostname]?.status)
+
+    // Hosts the probe found a proxy doesn't help are left out
+    const suggestedHostnames = [
+        ...new Set(failedRequests.map((request) => request.hostname))
+    ].filter((hostname) => !isUnhelpful(hostname))
+    const skippedCount =
+        new Set(failedRequests.map((request) => request.hostname)).size -
+        suggestedHostnames.length
+
     const addAllToProxyRules = async () => {
         try {
-            const uniqueHostnames = [
-                ...new Set(failedRequests.map((request) => request.hostname))
-            ]
-            const currentTabHostname = await getCurrentTabHostname()
+            const { currentTabHostname } = await getCurrentTab()
             await chrome.runtime.sendMessage({
                 action: "addProxyRules",
-                hostnames: uniqueHostnames,
+                hostnames: suggestedHostnames,
+                duration,
                 currentTabHostname
             })
             await chrome.runtime.sendMessage({
@@ -142,7 +319,12 @@ function IndexPopup() {
                     }
                 }
             )
-            setFailedRequests([])
+            setFailedRequests(
+                failedRequests.filter((request) =>
+                    isUnhelpful(request.hostname)
+                )
+            )
+            await loadTabRoute()
         } catch (error) {
             console.error("Error adding all to proxy rules:", error)
         }
@@ -160,11 +342,16 @@ function IndexPopup() {
 
     useEffect(() => {
         loadProxyEnabled()
+        loadTabProxy()
+        loadTabRoute()
+        loadAuthFailures()
         loadFailedRequests()
     }, [loadFailedRequests])
 
     useEffect(() => {
         const handleTabActivated = () => {
+            loadTabProxy()
+            loadTabRoute()
             loadFailedRequests()
         }
         const handleTabUpdated = (
@@ -172,23 +359,44 @@ function IndexPopup() {
             changeInfo: chrome.tabs.TabChangeInfo
         ) => {
             if (changeInfo.url) {
+                loadTabProxy()
+                loadTabRoute()
                 loadFailedRequests()
             }
         }
         const handleVisibilityChange = () => {
             if (document.visibilityState === "visible") {
+                loadTabRoute()
+                loadFailedRequests()
+            }
+        }
+
+        // Background probes finish after the list was loaded
+        const handleStorageChanged = (
+            changes: Record<string, chrome.storage.StorageChange>,
+            areaName: string
+        ) => {
+            if (
+                areaName === "session" &&
+                changes[STORAGE_KEYS.PROXY_PROBE_RESULTS]
+            ) {
                 loadFailedRequests()
             }
         }
 
         chrome.tabs.onActivated.addListener(handleTabActivated)
+        chrome.storage.onChanged.addListener(handleStorageChanged)
         chrome.tabs.onUpdated.addListener(handleTabUpdated)
         document.addEventListener("visibilitychange", handleVisibilityChange)
 
         return () => {
             chrome.tabs.onActivated.removeListener(handleTabActivated)
+            chrome.storage.onChanged.removeListener(handleStorageChanged)
             chrome.tabs.onUpdated.removeListener(handleTabUpdated)
-            document.removeEventListener("visibilitychange", handleVisibilityChange)
+            document.removeEventListener(
+                "visibilitychange",
+                handleVisibilityChange
+            )
         }
     }, [loadFailedRequests])
 
@@ -238,6 +446,32 @@ function IndexPopup() {
                                 : t("proxyEnabledOff")
                         }
                     />
+                    {proxyEnabled && (
+                        <FormControlLabel
+                            control={
+                                <Switch
+                                    size="small"
+                                    checked={tabProxyHosts !== undefined}
+                                    onChange={(e) =>
+                                        handleTabProxyToggle(e.target.checked)
+                                    }
+                                />
+                            }
+                            label={
+                                tabProxyHosts
+                                    ? t("tabProxyHostCount", {
+                                          count: tabProxyHosts.length.toString()
+                                      })
+                                    : t("tabProxy")
+                            }
+                            title={
+                                tabProxyHosts?.join("\n") || t("tabProxyHelper")
+                            }
+                            slotProps={{
+                                typography: { variant: "body2" }
+                            }}
+                        />
+                    )}
                 </Box>
                 <Box
                     sx={{
@@ -249,6 +483,18 @@ function IndexPopup() {
                         {t("networkMonitoring")}
                     </Typography>
                     <Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+                        <ToggleButtonGroup
+                            size="small"
+                            exclusive
+                            value={scope}
+                            onChange={(_, value) => value && setScope(value)}>
+                            <ToggleButton value="tab">
+                                {t("failureScopeTab")}
+                            </ToggleButton>
+                            <ToggleButton value="site">
+                                {t("failureScopeSite")}
+                            </ToggleButton>
+                        </ToggleButtonGroup>
                         <IconButton size="small" onClick={loadFailedRequests}>
                             <Refresh />
                         </IconButton>
@@ -262,7 +508,37 @@ function IndexPopup() {
                 </Box>
             </Box>
 
+            {proxyEnabled && tabRoute && (
+                <TabRoutePanel
+                    url={tabRoute.url}
+                    route={tabRoute.route}
+                    origins={tabRoute.origins}
+                />
+            )}
+
             <Box sx={{ p: 1, flex: 1 }}>
+                {proxyEnabled &&
+                    authFailures.map((failure) => (
+                        <Alert
+                            key={`${failure.host}:${failure.port}`}
+                            severity="error"
+                            sx={{ mb: 1 }}
+                            action={
+                                <Button
+                                    color="inherit"
+                                    size="small"
+                                    onClick={() =>
+                                        chrome.runtime.openOptionsPage()
+                                    }>
+                                    {t("openSettings")}
+                                </Button>
+                            }>
+                            {t("proxyAuthFailed", {
+                                profile: failure.profileName,
+                                server: `${failure.host}:${failure.port}`
+                            })}
+                        </Alert>
+                    ))}
                 {!proxyEnabled ? (
                     <Alert severity="info">{t("proxyDisabledMessage")}</Alert>
                 ) : failedRequests.length === 0 ? (
@@ -280,123 +556,229 @@ function IndexPopup() {
                                 {t("failedRequestsCount", {
                                     count: failedRequests.length.toString()
                                 })}
+                                {skippedCount > 0 &&
+                                    ` · ${t("probeSkippedCount", {
+                                        count: skippedCount.toString()
+                                    })}`}
+                                <Typography
+                                    component="span"
+                                    variant="caption"
+                                    display="block">
+                                    {t("probeSideEffectNote")}
+                                </Typography>
                             </Typography>
-                            <Button
-                                size="small"
-                                variant="contained"
-                                startIcon={<Add />}
-                                onClick={addAllToProxyRules}>
-                                {t("addAllToProxy")}
-                            </Button>
+                            <Box sx={{ display: "flex", gap: 1 }}>
+                                <Select
+                                    size="small"
+                                    value={duration}
+                                    onChange={(e) =>
+                                        setDuration(
+                                            e.target.value as RuleDuration
+                                        )
+                                    }
+                                    title={t("ruleDuration")}
+                                    sx={{ fontSize: "0.8125rem" }}>
+                                    {RULE_DURATIONS.map((d) => (
+                                        <MenuItem key={d} value={d}>
+                                            {t(RULE_DURATION_LABEL_KEYS[d])}
+                                        </MenuItem>
+                                    ))}
+                                </Select>
+                                <Button
+                                    size="small"
+                                    variant="contained"
+                                    startIcon={<Add />}
+                                    disabled={suggestedHostnames.length === 0}
+                                    onClick={addAllToProxyRules}>
+                                    {t("addAllToProxy")}
+                                </Button>
+                            </Box>
                         </Box>
 
                         <Box sx={{ mt: 0 }}>
-                            {failedRequests.map((request, index) => (
-                                <Card key={index} sx={{ mb: 1 }}>
-                                    <CardContent
-                                        sx={{
-                                            p: 2,
-                                            "&:last-child": { pb: 2 }
-                                        }}>
-                                        <Box
+                            {failedRequests.map((request, index) => {
+                                const classification = classifyFailure(request)
+                                const probeResult =
+                                    probeResults[request.hostname]
+                                return (
+                                    <Card key={index} sx={{ mb: 1 }}>
+                                        <CardContent
                                             sx={{
-                                                display: "flex",
-                                                justifyContent: "space-between",
-                                                alignItems: "flex-start",
-                                                mb: 1
+                                                p: 2,
+                                                "&:last-child": { pb: 2 }
                                             }}>
-                                            <Typography
-                                                variant="subtitle2"
+                                            <Box
                                                 sx={{
-                                                    fontWeight: "bold",
-                                                    flex: 1
+                                                    display: "flex",
+                                                    justifyContent:
+                                                        "space-between",
+                                                    alignItems: "flex-start",
+                                                    mb: 1
                                                 }}>
-                                                {request.hostname}
-                                            </Typography>
-                                            <Button
-                                                size="small"
-                                                variant="outlined"
-                                                startIcon={<Add />}
-                                                onClick={() => {
-                                                    addToProxyRules(
-                                                        request.hostname
-                                                    ).finally(() => {
-                                                        chrome.tabs.query(
-                                                            {
-                                                                active: true,
-                                                                currentWindow:
-                                                                    true
-                                                            },
-                                                            (tabs) => {
-                                                                if (
-                                                                    tabs[0]?.id
-                                                                ) {
-                                                                    chrome.tabs.reload(
+                                                <Typography
+                                                    variant="subtitle2"
+                                                    sx={{
+                                                        fontWeight: "bold",
+                                                        flex: 1
+                                                    }}>
+                                                    {request.hostname}
+                                                </Typography>
+                                                <Button
+                                                    size="small"
+                                                    variant="outlined"
+                                                    startIcon={<Add />}
+                                                    onClick={() => {
+                                                        addToProxyRules(
+                                                            request.hostname
+                                                        ).finally(() => {
+                                                            chrome.tabs.query(
+                                                                {
+                                                                    active: true,
+                                                                    currentWindow:
+                                                                        true
+                                                                },
+                                                                (tabs) => {
+                                                                    if (
                                                                         tabs[0]
-                                                                            .id
-                                                                    )
+                                                                            ?.id
+                                                                    ) {
+                                                                        chrome.tabs.reload(
+                                                                            tabs[0]
+                                                                                .id
+                                                                        )
+                                                                    }
                                                                 }
-                                                            }
-                                                        )
-                                                    })
-                                                }}
-                                                sx={{ ml: 1 }}>
-                                                {t("addToProxy")}
-                                            </Button>
-                                        </Box>
-
-                                        <Typography
-                                            variant="body2"
-                                            color="text.secondary"
-                                            sx={{ mb: 1 }}>
-                                            {request.url}
-                                        </Typography>
-
-                                        <Box
-                                            sx={{
-                                                display: "flex",
-                                                gap: 1,
-                                                flexWrap: "wrap"
-                                            }}>
-                                            <Chip
-                                                label={formatTime(
-                                                    request.timestamp
-                                                )}
-                                                size="small"
-                                                variant="outlined"
-                                            />
+                                                            )
+                                                        })
+                                                    }}
+                                                    sx={{ ml: 1 }}>
+                                                    {t("addToProxy")}
+                                                </Button>
+                                            </Box>
 
-                                            {request.responseTime && (
+                                            <Typography
+                                                variant="body2"
+                                                color="text.secondary"
+                                                sx={{ mb: 1 }}>
+                                                {request.url}
+                                            </Typography>
+
+                                            <Box
+                                                sx={{
+                                                    display: "flex",
+                                                    gap: 1,
+                                                    flexWrap: "wrap"
+                                                }}>
                                                 <Chip
-                                                    label={`${t("responseTime")}: ${formatResponseTime(request.responseTime)}`}
+                                                    label={formatTime(
+                                                        request.timestamp
+                                                    )}
                                                     size="small"
-                                                    color="warning"
+                                                    variant="outlined"
                                                 />
-                                            )}
 
-                                            {request.error && (
                                                 <Chip
-                                                    label={`${t("error")}: ${request.error}`}
+                                                    label={t(
+                                                        CATEGORY_LABEL_KEYS[
+                                                            classification
+                                                                .category
+                                                        ]
+                                                    )}
                                                     size="small"
-                                                    color="error"
+                                                    variant="outlined"
                                                 />
-                                            )}
 
-                                            {request.status && (
                                                 <Chip
-                                                    label={`${t("status")}: ${request.status}`}
+                                                    label={t(
+                                                        LIKELIHOOD_LABEL_KEYS[
+                                                            classification
+                                                                .likelihood
+                                                        ]
+                                                    )}
                                                     size="small"
                                                     color={
-                                                        request.status >= 400
-                                                            ? "error"
+                                                        LIKELIHOOD_COLORS[
+                                                            classification
+                                                                .likelihood
+                                                        ]
+                                                    }
+                                                />
+
+                                                <Chip
+                                                    label={
+                                                        probing.includes(
+                                                            request.hostname
+                                                        )
+                                                            ? t("probeRunning")
+                                                            : probeResult
+                                                              ? t(
+                                                                    PROBE_LABEL_KEYS[
+                                                                        probeResult
+                                                                            .status
+                                                                    ]
+                                                                )
+                                                              : t(
+                                                                    "probeUnverified"
+                                                                )
+                                                    }
+                                                    size="small"
+                                                    variant={
+                                                        probeResult
+                                                            ? "filled"
+                                                            : "outlined"
+                                                    }
+                                                    color={
+                                                        probeResult
+                                                            ? PROBE_COLORS[
+                                                                  probeResult
+                                                                      .status
+                                                              ]
                                                             : "default"
                                                     }
+                                                    title={t("probeRecheck")}
+                                                    disabled={probing.includes(
+                                                        request.hostname
+                                                    )}
+                                                    onClick={() =>
+                                                        probeFailedRequest(
+                                                            request
+                                                        )
+                                                    }
                                                 />
-                                            )}
-                                        </Box>
-                                    </CardContent>
-                                </Card>
-                            ))}
+
+                                                {request.responseTime && (
+                                                    <Chip
+                                                        label={`${t("responseTime")}: ${formatResponseTime(request.responseTime)}`}
+                                                        size="small"
+                                                        color="warning"
+                                                    />
+                                                )}
+
+                                                {request.error && (
+                                                    <Chip
+                                                        label={`${t("error")}: ${request.error}`}
+                                                        size="small"
+                                                        color="error"
+                                                    />
+                                                )}
+
+                                                {request.status && (
+                                                    <Chip
+                                                        label={`${t("status")}: ${request.status}`}
+                                                        size="small"
+                                                        color={
+                                                            request.status >=
+                                                            400
+                                                                ? "error"
+                                                                : "default"
+                                                        }
+                                                    />
+                                                )}
+                                            </Box>
+                                        </CardContent>
+                                    </Card>
+                                )
+                            })}
                         </Box>
 
                         <Box
@@ -0,0 +1,184 @@
+import type { GeneralSettings, ProxyAuthFailure, ProxyEndpoint, ProxyProfile } from './types/common'
+import generalSettingsService from '~general-settings-service'
+import { STORAGE_KEYS } from '~types/common'
+import { sessionStorage } from '~utils/storage'
+
+// Challenges answered for a single request before the credentials are considered rejected
+const MAX_ATTEMPTS_PER_REQUEST = 1
+// How long a server with rejected credentials is left alone before trying again
+const FAILURE_COOLDOWN_MS = 60 * 1000
+
+interface ProxyAuthState {
+    // Credentials supplied per request id, and the server they went to
+    attempts: Record<string, { count: number; server: string }>
+    // Rejected credentials per server, `host:port`
+    failures: Record<string, ProxyAuthFailure>
+}
+
+/**
+ * Proxy authentication for the servers of all profiles
+ * Attempts and rejected credentials are kept in session storage, so the failures the
+ * popup lists survive worker restarts; a failure is dropped when its server accepts the
+ * credentials or when the profile's credentials for that server change
+ */
+class ProxyAuthService {
+    private state: ProxyAuthState | undefined
+    private watchingStorage = false
+    // Challenges of parallel requests are answered one at a time
+    private queue: Promise<unknown> = Promise.resolve()
+
+    private serverKey(host: string, port: number): string {
+        return `${host}:${port}`
+    }
+
+    private async load(): Promise<ProxyAuthState> {
+        this.watchStorage()
+        if (!this.state) {
+            this.state = (await sessionStorage.get<ProxyAuthState>(STORAGE_KEYS.PROXY_AUTH_STATE)) || { attempts: {}, failures: {} }
+        }
+        return this.state
+    }
+
+    private update<T>(change: (state: ProxyAuthState) => T): Promise<T> {
+        const result = this.queue.then(async () => {
+            const state = await this.load()
+            const value = change(state)
+            await sessionStorage.set(STORAGE_KEYS.PROXY_AUTH_STATE, state)
+            return value
+        })
+        this.queue = result.catch(() => undefined)
+        return result
+    }
+
+    // Reload once the stored state changes, e.g. when the browser session ends
+    private watchStorage() {
+        if (this.watchingStorage) {
+            return
+        }
+        this.watchingStorage = true
+        chrome.storage.onChanged.addListener((changes, area) => {
+            if (area === 'session' && changes[STORAGE_KEYS.PROXY_AUTH_STATE]) {
+                this.state = undefined
+            }
+        })
+    }
+
+    /**
+     * Find the server of a profile, primary or fallback, that is challenging
+     * Prefers an exact host and port match, then any server on the same host
+     */
+    private findEndpoint(profiles: ProxyProfile[], challenger: chrome.webRequest.WebAuthChallenger): { profile: ProxyProfile; endpoint: ProxyEndpoint } | undefined {
+        const host = challenger.host.toLowerCase()
+        const sameHost = profiles
+            .flatMap(profile => [profile, ...(profile.fallbacks || [])].map(endpoint => ({ profile, endpoint })))
+            .filter(({ endpoint }) => endpoint.address.toLowerCase() === host)
+        return sameHost.find(({ endpoint }) => endpoint.port === challenger.port) || sameHost[0]
+    }
+
+    /**
+     * Answer a proxy authentication challenge with the credentials of the matching profile
+     * A request that is challenged again after credentials were supplied means they were
+     * rejected: the request is cancelled and the failure recorded instead of looping
+     */
+    async handleAuthRequired(details: chrome.webRequest.WebAuthenticationChallengeDetails): Promise<chrome.webRequest.BlockingResponse> {
+        if (!details.isProxy) {
+            return {}
+        }
+        const settings = await generalSettingsService.getSettings()
+        if (!settings.proxyEnabled) {
+            return {}
+        }
+        const match = this.findEndpoint(settings.proxyProfiles, details.challenger)
+        if (!match || !match.endpoint.username) {
+            return {}
+        }
+        const { profile, endpoint } = match
+
+        const key = this.serverKey(details.challenger.host, details.challenger.port)
+        return this.update((state): chrome.webRequest.BlockingResponse => {
+            const failure = state.failures[key]
+            if (failure && failure.username === endpoint.username && Date.now() - failure.timestamp < FAILURE_COOLDOWN_MS) {
+                return { cancel: true }
+            }
+
+            const attempts = state.attempts[details.requestId]?.count || 0
+            if (attempts >= MAX_ATTEMPTS_PER_REQUEST) {
+                delete state.attempts[details.requestId]
+                state.failures[key] = {
+                    profileId: profile.id,
+                    profileName: profile.name,
+                    host: details.challenger.host,
+                    port: details.challenger.port,
+                    username: endpoint.username,
+                    timestamp: Date.now()
+                }
+                console.warn("🔐 Proxy authentication failed:", key)
+                return { cancel: true }
+            }
+
+            state.attempts[details.requestId] = { count: attempts + 1, server: key }
+            return {
+                authCredentials: {
+                    username: endpoint.username,
+                    password: endpoint.password
+                }
+            }
+        })
+    }
+
+    /**
+     * Forget the attempt counter once a request finishes
+     * A request that succeeds after credentials were supplied clears the server's failure
+     * Called for every request, storage is only written for requests that were challenged
+     */
+    async completeRequest(requestId: string, succeeded: boolean) {
+        if (!(await this.load()).attempts[requestId]) {
+            return
+        }
+        await this.update(state => {
+            const attempt = state.attempts[requestId]
+            delete state.attempts[requestId]
+            if (attempt && succeeded) {
+                delete state.failures[attempt.server]
+            }
+        })
+    }
+
+    async getFailures(): Promise<ProxyAuthFailure[]> {
+        return Object.values((await this.load()).failures)
+    }
+
+    /**
+     * Give servers a fresh attempt once the credentials the profile uses for them change
+     * Failures of deleted profiles are dropped too
+     * @param change - The storage change of the settings key, values are JSON encoded
+     */
+    async handleSettingsChange(change: chrome.storage.StorageChange) {
+        const parse = (value: unknown): Partial<GeneralSettings> =>
+            typeof value === 'string' ? JSON.parse(value) || {} : {}
+        const oldSettings = parse(change.oldValue)
+        const newSettings = parse(change.newValue)
+        const credentials = (settings: Partial<GeneralSettings>, failure: ProxyAuthFailure) => {
+            const profile = settings.proxyProfiles?.find(p => p.id === failure.profileId)
+            const endpoint = profile && this.findEndpoint([profile], failure)?.endpoint
+            return endpoint && JSON.stringify([endpoint.username, endpoint.password])
+        }
+        const isChanged = (failure: ProxyAuthFailure) => {
+            const current = credentials(newSettings, failure)
+            return !current || current !== credentials(oldSettings, failure)
+        }
+        if (!Object.values((await this.load()).failures).some(isChanged)) {
+            return
+        }
+        await this.update(state => {
+            for (const [key, failure] of Object.entries(state.failures)) {
+                if (isChanged(failure)) {
+                    delete state.failures[key]
+                }
+            }
+        })
+    }
+}
+
+const proxyAuthService = new ProxyAuthService()
+export default proxyAuthService
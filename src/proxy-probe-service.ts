@@ -0,0 +1,137 @@
+import type { FailedRequest, ProxyProbeResult, ProxyProbeStatus } from './types/common'
+import generalSettingsService from '~general-settings-service'
+import requestMonitorService from '~request-monitor-service'
+import { STORAGE_KEYS } from '~types/common'
+import { sessionStorage } from '~utils/storage'
+
+// Give up on a probe request after this long
+const PROBE_TIMEOUT_MS = 10 * 1000
+// A hostname is probed again only after this long, unless asked explicitly
+const PROBE_INTERVAL_MS = 10 * 60 * 1000
+// Proxied attempts reconfigure the proxy, consecutive ones wait this long in between
+const PROBE_SPACING_MS = 2 * 1000
+// Query parameter marking the URL of a proxied attempt
+const PROBE_QUERY = 'proxy-switch-craft-probe'
+
+/**
+ * Retries failed hosts directly and through the default profile, so the popup can
+ * tell hosts a proxy rule helps from hosts that are down for everyone
+ * The proxied attempt routes its own URL through the proxy for a moment by adding it
+ * to the generated PAC script, so probes only run in the rules proxy mode and only
+ * for hosts the popup shows; hosts reachable directly skip it
+ * PAC scripts only see the origin of https URLs: while a proxied attempt at an https
+ * host runs, the user's requests to that host are proxied too, the popup says so
+ * Results are keyed by the suggested pattern and kept in session storage
+ */
+class ProxyProbeService {
+    // Probes change the proxy settings, so they run one at a time
+    private queue: Promise<unknown> = Promise.resolve()
+    private queued: Set<string> = new Set()
+    private lastProxiedAttemptAt = 0
+
+    async getResults(): Promise<Record<string, ProxyProbeResult>> {
+        return (await sessionStorage.get<Record<string, ProxyProbeResult>>(STORAGE_KEYS.PROXY_PROBE_RESULTS)) || {}
+    }
+
+    /**
+     * Queue a probe of a failed request's host
+     * @param force Probe even when the host was checked recently
+     * @returns The result, undefined when the probe was skipped
+     */
+    async probeFailedRequest(request: FailedRequest, force = false): Promise<ProxyProbeResult | undefined> {
+        if (this.queued.has(request.hostname)) {
+            return undefined
+        }
+        const previous = (await this.getResults())[request.hostname]
+        if (!force && previous && Date.now() - previous.checkedAt < PROBE_INTERVAL_MS) {
+            return previous
+        }
+        this.queued.add(request.hostname)
+        const result = this.queue
+            .then(() => this.probe(request))
+            .finally(() => this.queued.delete(request.hostname))
+        this.queue = result.catch(() => undefined)
+        return result
+    }
+
+    /**
+     * Queue probes of the failures the popup shows, hosts checked recently are skipped
+     */
+    probeFailedRequests(requests: FailedRequest[]) {
+        for (const request of requests) {
+            this.probeFailedRequest(request).catch(error => {
+                console.error('Error probing failed request:', error)
+            })
+        }
+    }
+
+    private async probe(request: FailedRequest): Promise<ProxyProbeResult | undefined> {
+        const settings = await generalSettingsService.getSettings()
+        if (!settings.proxyEnabled || settings.proxyMode !== 'rules' || !generalSettingsService.hasProxyServer(generalSettingsService.getProfileForRule(settings))) {
+            return undefined
+        }
+        let target: URL
+        try {
+            target = new URL(request.url)
+        } catch {
+            return undefined
+        }
+        // Slow requests count as failed unless the retry beats the threshold
+        const timeout = request.error ? PROBE_TIMEOUT_MS : Math.min(PROBE_TIMEOUT_MS, settings.responseTimeThreshold)
+
+        const direct = await this.attempt(target.origin, timeout)
+        let proxied = false
+        if (!direct) {
+            await this.waitForSpacing()
+            // A URL of its own, so the temporary rule misses the user's http requests
+            const probeUrl = `${target.origin}/?${PROBE_QUERY}=${Date.now()}`
+            try {
+                await requestMonitorService.setProbeUrls([probeUrl])
+                proxied = await this.attempt(probeUrl, timeout)
+            } finally {
+                await requestMonitorService.setProbeUrls([])
+                this.lastProxiedAttemptAt = Date.now()
+            }
+        }
+
+        const status: ProxyProbeStatus = direct ? 'directWorks' : proxied ? 'proxyFixes' : 'failsBoth'
+        const result: ProxyProbeResult = { status, checkedAt: Date.now() }
+        const results = await this.getResults()
+        results[request.hostname] = result
+        await sessionStorage.set(STORAGE_KEYS.PROXY_PROBE_RESULTS, results)
+        console.log(`🔬 Probed ${target.hostname}: direct ${direct}, proxied ${proxied}`)
+        return result
+    }
+
+    private async waitForSpacing() {
+        const wait = this.lastProxiedAttemptAt + PROBE_SPACING_MS - Date.now()
+        if (wait > 0) {
+            await new Promise(resolve => setTimeout(resolve, wait))
+        }
+    }
+
+    /**
+     * Request a URL without reading it, any response counts as reachable
+     */
+    private async attempt(url: string, timeoutMs: number): Promise<boolean> {
+        const controller = new AbortController()
+        const timeout = setTimeout(() => controller.abort(), timeoutMs)
+        try {
+            await fetch(url, {
+                method: 'HEAD',
+                mode: 'no-cors',
+                cache: 'no-store',
+                credentials: 'omit',
+                signal: controller.signal
+            })
+            return true
+        } catch {
+            return false
+        } finally {
+            clearTimeout(timeout)
+        }
+    }
+}
+
+const proxyProbeService = new ProxyProbeService()
+export default proxyProbeService
@@ -1,5 +1,13 @@
-import type { ProxyRule } from './types/common'
-import { getProxyRules, saveProxyRules } from "~utils/storage"
+import type { PatternGranularity, ProxyRule, ProxyRuleAction } from './types/common'
+import { checkProxyRulesCapacity, getProxyRules, saveProxyRules } from "~utils/storage"
+import { findMatchingRule, isBypassRule } from "~utils/rule-matcher"
+import { generateId } from "~utils/util"
+import { isRuleExpired } from "~utils/rule-expiry"
+import { getRegistrableDomain } from "~utils/domain"
+import subscriptionService from "~subscription-service"
+
+// Alarm removing temporary rules, set to the earliest expiry
+const EXPIRY_ALARM = 'ruleExpiry'
 class ProxyRuleService {
     /**static */
     private static readonly IPV4PATTERN = /^(\d{1,3}\.){3}\d{1,3}$/
@@ -9,11 +17,13 @@ class ProxyRuleService {
      * Convert a hostname to a wildcard domain
      * www.example.com -> *.example.com
      * aa.bb.cc.example.com -> *.bb.cc.example.com
+     * Patterns never cover more than the registrable domain: bbc.co.uk stays bbc.co.uk
      * IP addresses (IPv4/IPv6) are returned as-is
      * @param hostname 
+     * @param granularity How much of the site the pattern covers, siblings by default
      * @returns 
      */
-    formatPattern(url: string): string {
+    formatPattern(url: string, granularity: PatternGranularity = 'parent'): string {
         const hostname = new URL(url).hostname
         if (ProxyRuleService.IPV4PATTERN.test(hostname)) {
             return hostname
@@ -22,25 +32,73 @@ class ProxyRuleService {
         if (hostname.includes(':') || hostname.startsWith('[')) {
             return hostname
         }
+        const domain = getRegistrableDomain(hostname)
+        if (hostname === domain || granularity === 'host') return hostname
+        if (granularity === 'domain') return domain
         const parts = hostname.split(".")
-        if (parts.length <= 2) return hostname
         parts[0] = "*"
         return parts.join(".")
     }
 
+    /**
+     * Add a rule for the site of a URL, or change the action of the rule with the same pattern
+     * Exact hosts get a host rule, which doesn't match subdomains
+     * @returns The pattern of the rule
+     */
+    async addRuleForUrl(url: string, granularity: PatternGranularity, action: ProxyRuleAction): Promise<string> {
+        const pattern = this.formatPattern(url, granularity)
+        const existingRule = (await this.getRules()).find(rule => rule.pattern === pattern)
+        if (existingRule) {
+            await this.updateProxyRule(existingRule.id, { action })
+        } else {
+            await this.addRule({
+                id: generateId(),
+                pattern,
+                type: granularity === 'host' ? 'host' : undefined,
+                action
+            })
+        }
+        return pattern
+    }
+
+    /**
+     * Remove the user's rule that decides how a URL is routed
+     * Rules of subscriptions can't be removed here
+     * @returns The removed rule, undefined when none of the user's rules matches
+     */
+    async removeRuleForUrl(url: string): Promise<ProxyRule | undefined> {
+        const rules = (await this.getRules()).filter(rule => !isRuleExpired(rule))
+        const rule = findMatchingRule(rules, url)
+        if (rule) {
+            await this.deleteRule(rule.id)
+        }
+        return rule
+    }
+
     /**
      * Check if a URL matches any proxy rule
-     * Uses wildcard matching to check if URL should use proxy
+     * Uses the same matcher as the generated PAC script, so the result
+     * reflects how the request is actually routed
      * @param url - Full URL to check
-     * @returns true if URL matches any rule, false otherwise
+     * @returns true if URL is proxied, false if no rule or a bypass rule matches
      */
     async isInRules(url: string): Promise<boolean> {
-        const proxyRules = await this.getRules()
+        const rule = await this.findMatchingRule(url)
+        return rule !== undefined && !isBypassRule(rule)
+    }
+
+    /**
+     * Find the rule that decides how a URL is routed
+     * Bypass rules are checked before proxy rules
+     * @param url - Full URL to check
+     * @returns The first matching rule, undefined when no rule matches
+     */
+    async findMatchingRule(url: string): Promise<ProxyRule | undefined> {
+        const proxyRules = await this.getEffectiveRules()
         if (!proxyRules || proxyRules.length === 0) {
-            return false
+            return undefined
         }
-        const pattern = this.formatPattern(url);
-        return proxyRules.some(rule => rule.pattern === pattern)
+        return findMatchingRule(proxyRules, url)
     }
 
     async addRule(rule: ProxyRule): Promise<ProxyRule[]> {
@@ -68,10 +126,65 @@ class ProxyRuleService {
         return proxyRules
     }
 
+    /**
+     * Import rules from a backup or shared list
+     * merge: add rules whose pattern is not present yet, like addRules
+     * replace: drop the current rules and keep the imported ones
+     * Duplicated patterns inside the import are kept once, colliding ids are regenerated
+     * @returns The number of rules added and skipped as duplicates
+     * @throws {RuleStorageLimitError} When the resulting rules don't fit into storage, nothing is saved then
+     */
+    async importRules(rules: ProxyRule[], mode: 'merge' | 'replace'): Promise<{ added: number; skipped: number }> {
+        const { currentRules, newRules } = await this.planImport(rules, mode)
+        if (mode === 'replace' || newRules.length > 0) {
+            await this.saveRules([...currentRules, ...newRules])
+        }
+        return { added: newRules.length, skipped: rules.length - newRules.length }
+    }
+
+    /**
+     * Check that importing rules would fit into storage, without saving anything
+     * @throws {RuleStorageLimitError} When the resulting rules don't fit
+     */
+    async checkImportCapacity(rules: ProxyRule[], mode: 'merge' | 'replace'): Promise<void> {
+        const { currentRules, newRules } = await this.planImport(rules, mode)
+        await checkProxyRulesCapacity([...currentRules, ...newRules])
+    }
+
+    private async planImport(rules: ProxyRule[], mode: 'merge' | 'replace') {
+        const currentRules = mode === 'merge' ? await this.getRules() : []
+        const patterns = new Set(currentRules.map(r => r.pattern))
+        const ids = new Set(currentRules.map(r => r.id))
+        const newRules: ProxyRule[] = []
+        for (const rule of rules) {
+            if (patterns.has(rule.pattern)) {
+                continue
+            }
+            const id = ids.has(rule.id) ? generateId() : rule.id
+            patterns.add(rule.pattern)
+            ids.add(id)
+            newRules.push({ ...rule, id })
+        }
+        return { currentRules, newRules }
+    }
+
     async getRules(): Promise<ProxyRule[]> {
         return await getProxyRules();
     }
 
+    /**
+     * Rules that decide routing: the user's own rules, then those of enabled subscriptions
+     * Expired rules are left out even before the alarm removes them
+     */
+    async getEffectiveRules(): Promise<ProxyRule[]> {
+        const [rules, subscriptionRules] = await Promise.all([
+            this.getRules(),
+            subscriptionService.getAllSubscriptionRules()
+        ])
+        const proxyRules = rules.filter(rule => !isRuleExpired(rule))
+        return subscriptionRules.length > 0 ? [...proxyRules, ...subscriptionRules] : proxyRules
+    }
+
     async updateProxyRule(ruleId: string, updatedRule: Partial<ProxyRule>): Promise<boolean> {
         const proxyRules = await this.getRules()
         const index = proxyRules.findIndex(rule => rule.id === ruleId)
@@ -100,6 +213,51 @@ class ProxyRuleService {
         await saveProxyRules(rules)
     }
 
+    /**
+     * Remove temporary rules whose expiry has passed
+     * @returns The removed rules
+     */
+    async removeExpiredRules(): Promise<ProxyRule[]> {
+        const proxyRules = await this.getRules()
+        const expiredRules = proxyRules.filter(rule => isRuleExpired(rule))
+        if (expiredRules.length > 0) {
+            await this.saveRules(proxyRules.filter(rule => !isRuleExpired(rule)))
+            console.log('⏰ Removed expired rules:', expiredRules.map(rule => rule.pattern))
+        }
+        return expiredRules
+    }
+
+    /**
+     * Keep one alarm at the earliest expiry of the temporary rules, none without them
+     */
+    async syncExpiryAlarm() {
+        const expiries = (await this.getRules())
+            .map(rule => rule.expiresAt)
+            .filter((expiresAt): expiresAt is number => expiresAt !== undefined)
+        if (expiries.length === 0) {
+            await chrome.alarms.clear(EXPIRY_ALARM)
+            return
+        }
+        const when = Math.min(...expiries)
+        const alarm = await chrome.alarms.get(EXPIRY_ALARM)
+        if (alarm?.scheduledTime !== when) {
+            await chrome.alarms.create(EXPIRY_ALARM, { when })
+        }
+    }
+
+    /**
+     * Remove expired rules when the expiry alarm fires and schedule the next one
+     * @returns false when the alarm is not the expiry alarm
+     */
+    async handleAlarm(alarm: chrome.alarms.Alarm): Promise<boolean> {
+        if (alarm.name !== EXPIRY_ALARM) {
+            return false
+        }
+        await this.removeExpiredRules()
+        await this.syncExpiryAlarm()
+        return true
+    }
+
 }
 const proxyRuleService = new ProxyRuleService()
 export default proxyRuleService
\ No newline at end of file
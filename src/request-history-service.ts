@@ -0,0 +1,55 @@
+import type { FailedRequest } from './types/common'
+import { STORAGE_KEYS } from '~types/common'
+import { localStorage } from '~utils/storage'
+
+// Oldest records are dropped beyond this count, keeps local storage well under quota
+const HISTORY_MAX_RECORDS = 5000
+const HISTORY_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000
+// Failures recorded within this window are written together
+const HISTORY_SAVE_DELAY_MS = 1000
+
+/**
+ * Persisted log of failed and slow requests for the options page insights
+ * Unlike the monitor's per-site lists, entries survive clearing the popup and are
+ * not deduplicated, so counts reflect how often a host failed
+ */
+class RequestHistoryService {
+    private buffer: FailedRequest[] = []
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+
+    async getHistory(): Promise<FailedRequest[]> {
+        return (await localStorage.get<FailedRequest[]>(STORAGE_KEYS.REQUEST_HISTORY)) || []
+    }
+
+    record(request: FailedRequest) {
+        this.buffer.push(request)
+        if (!this.saveTimer) {
+            this.saveTimer = setTimeout(() => {
+                this.saveTimer = null
+                this.flush()
+            }, HISTORY_SAVE_DELAY_MS)
+        }
+    }
+
+    private async flush() {
+        const records = this.buffer
+        this.buffer = []
+        try {
+            const cutoff = Date.now() - HISTORY_MAX_AGE_MS
+            const history = [...(await this.getHistory()), ...records]
+                .filter(r => r.timestamp >= cutoff)
+                .slice(-HISTORY_MAX_RECORDS)
+            await localStorage.set(STORAGE_KEYS.REQUEST_HISTORY, history)
+        } catch (error) {
+            console.error('Error saving request history:', error)
+        }
+    }
+
+    async clearHistory() {
+        this.buffer = []
+        await localStorage.remove(STORAGE_KEYS.REQUEST_HISTORY)
+    }
+}
+
+const requestHistoryService = new RequestHistoryService()
+export default requestHistoryService
@@ -1,27 +1,196 @@
-import type { GeneralSettings, ProxyRule, FailedRequest, PendingRequest } from './types/common'
+import type { GeneralSettings, ProxyEndpoint, ProxyProfile, ProxyRule, ProxyScheme, FailedRequest, PendingRequest, RequestRoute } from './types/common'
 import generalSettingsService from '~general-settings-service'
 import proxyRuleService from "~proxy-rule-service"
+import requestHistoryService from '~request-history-service'
+import tabProxyService from '~tab-proxy-service'
+import { STORAGE_KEYS } from '~types/common'
+import {
+    ALWAYS_DIRECT_HOSTS,
+    compileRuleGroup,
+    createPacDeclarations,
+    findMatchingRule,
+    getPacHost,
+    getPacUrl,
+    isBypassRule,
+    orderRulesForEvaluation,
+    renderPacCondition
+} from "~utils/rule-matcher"
+import { sessionStorage } from '~utils/storage'
+import { escapeRegExp } from '~utils/util'
+
+// PAC keyword for each proxy scheme, a bare "SOCKS" would mean SOCKS4 to Chrome
+const PAC_DIRECTIVE_KEYWORDS: Record<ProxyScheme, string> = {
+    http: "PROXY",
+    https: "HTTPS",
+    socks4: "SOCKS4",
+    socks5: "SOCKS5"
+}
+
+// Changes made within this window are written to session storage together
+const STATE_SAVE_DELAY_MS = 500
+// Pending requests older than this when the worker restarts are assumed finished
+const PENDING_REQUEST_MAX_AGE_MS = 2 * 60 * 1000
+// How long a confirmation stays on the badge
+const BADGE_FLASH_MS = 2000
+// Distinct origins remembered per tab for the route view
+const MAX_REQUEST_ORIGINS_PER_TAB = 200
+
+// Failures recorded in one tab since its last navigation
+interface TabFailedRequests {
+    // Hostname of the page shown in the tab, groups tabs for the per-site view
+    siteHostname: string
+    requests: FailedRequest[]
+}
 
+interface MonitorState {
+    failedRequestsByTab: Record<string, TabFailedRequests>
+    pendingRequests: Record<string, PendingRequest>
+    requestOriginsByTab: Record<string, string[]>
+}
+
+/**
+ * Tracks pending and failed requests for the popup and the badge
+ * Failures belong to the tab that made the request and are dropped when the tab
+ * navigates to another page or closes
+ * The MV3 service worker is stopped when idle, so the state is mirrored to session
+ * storage and read back the first time it is needed after a restart
+ */
 class RequestMonitorService {
-    private failedRequestsByHostname: Map<string, FailedRequest[]> = new Map()
+    private failedRequestsByTab: Map<number, TabFailedRequests> = new Map()
     private pendingRequests: Map<string, PendingRequest> = new Map()
+    // Origins each tab requested since its last navigation, in order of the first request
+    private requestOriginsByTab: Map<number, string[]> = new Map()
+    private restored: Promise<void> | null = null
+    private saveTimer: ReturnType<typeof setTimeout> | null = null
+    // Hosts sent through the default profile while the proxy probe checks them
+    private probeUrls: string[] = []
+
+    /**
+     * Load the state saved before the service worker was stopped
+     * Entries recorded since the worker started win over saved ones
+     */
+    restoreState(): Promise<void> {
+        if (!this.restored) {
+            this.restored = this.loadState()
+        }
+        return this.restored
+    }
+
+    private async loadState() {
+        try {
+            const state = await sessionStorage.get<MonitorState>(STORAGE_KEYS.REQUEST_MONITOR_STATE)
+            if (!state) {
+                return
+            }
+            for (const [tabId, tabFailures] of Object.entries(state.failedRequestsByTab || {})) {
+                if (!this.failedRequestsByTab.has(Number(tabId))) {
+                    this.failedRequestsByTab.set(Number(tabId), tabFailures)
+                }
+            }
+            for (const [tabId, origins] of Object.entries(state.requestOriginsByTab || {})) {
+                if (!this.requestOriginsByTab.has(Number(tabId))) {
+                    this.requestOriginsByTab.set(Number(tabId), origins)
+                }
+            }
+            await this.reconcilePendingRequests(Object.values(state.pendingRequests || {}))
+        } catch (error) {
+            console.error('Error restoring request monitor state:', error)
+        }
+    }
+
+    /**
+     * Keep saved pending requests that may still finish
+     * Requests of closed tabs or started long ago had their events missed while the
+     * worker was stopped and would never be removed otherwise
+     */
+    private async reconcilePendingRequests(requests: PendingRequest[]) {
+        const now = Date.now()
+        for (const request of requests) {
+            if (this.pendingRequests.has(request.requestId) || now - request.startTime > PENDING_REQUEST_MAX_AGE_MS) {
+                continue
+            }
+            try {
+                await chrome.tabs.get(request.tabId)
+            } catch {
+                continue
+            }
+            this.pendingRequests.set(request.requestId, request)
+        }
+        this.scheduleSave()
+    }
+
+    private scheduleSave() {
+        if (this.saveTimer) {
+            return
+        }
+        this.saveTimer = setTimeout(() => {
+            this.saveTimer = null
+            this.saveState()
+        }, STATE_SAVE_DELAY_MS)
+    }
+
+    private async saveState() {
+        // Never overwrite the saved state before it was read back
+        await this.restoreState()
+        const state: MonitorState = {
+            failedRequestsByTab: Object.fromEntries(this.failedRequestsByTab),
+            pendingRequests: Object.fromEntries(this.pendingRequests),
+            requestOriginsByTab: Object.fromEntries(this.requestOriginsByTab)
+        }
+        try {
+            await sessionStorage.set(STORAGE_KEYS.REQUEST_MONITOR_STATE, state)
+        } catch (error) {
+            console.error('Error saving request monitor state:', error)
+        }
+    }
 
     addPendingRequest(request: PendingRequest) {
         this.pendingRequests.set(request.requestId, request)
+        this.scheduleSave()
     }
 
     updatePendingRequestTabHostname(requestId: string, currentTabHostname: string) {
         const pending = this.pendingRequests.get(requestId)
         if (pending) {
             pending.currentTabHostname = currentTabHostname
+            this.scheduleSave()
         }
     }
 
     removePendingRequest(requestId: string) {
-        this.pendingRequests.delete(requestId)
+        // After the restore, so a saved copy of the request can't come back
+        this.restoreState().then(() => {
+            if (this.pendingRequests.delete(requestId)) {
+                this.scheduleSave()
+            }
+        })
     }
 
-    getPendingRequest(requestId: string) {
+    /**
+     * Remember the origin of a request made by a tab, for the popup's route view
+     */
+    addRequestOrigin(tabId: number, url: string) {
+        let origin: string
+        try {
+            origin = new URL(url).origin
+        } catch {
+            return
+        }
+        const origins = this.requestOriginsByTab.get(tabId) || []
+        if (origins.includes(origin) || origins.length >= MAX_REQUEST_ORIGINS_PER_TAB) {
+            return
+        }
+        this.requestOriginsByTab.set(tabId, [...origins, origin])
+        this.scheduleSave()
+    }
+
+    async getRequestOrigins(tabId: number): Promise<string[]> {
+        await this.restoreState()
+        return this.requestOriginsByTab.get(tabId) || []
+    }
+
+    async getPendingRequest(requestId: string): Promise<PendingRequest | undefined> {
+        await this.restoreState()
         return this.pendingRequests.get(requestId)
     }
 
@@ -30,31 +199,110 @@ class RequestMonitorService {
         return settings?.proxyEnabled === true
     }
 
+    /**
+     * Failures are only suggested while rules decide the routing,
+     * the global mode proxies everything already
+     */
     async isMonitoringEnabled(): Promise<boolean> {
-        return await this.isProxyEnabled()
+        const settings = await generalSettingsService.getSettings()
+        return settings?.proxyEnabled === true && settings.proxyMode !== 'global'
+    }
+
+    async getFailedRequestsForTab(tabId: number): Promise<FailedRequest[]> {
+        await this.restoreState()
+        return this.failedRequestsByTab.get(tabId)?.requests || []
+    }
+
+    /**
+     * Failures of all tabs showing a site, one entry per failing hostname
+     * The most recent failure of a hostname is kept
+     */
+    async getFailedRequestsForSite(siteHostname: string): Promise<FailedRequest[]> {
+        await this.restoreState()
+        const byHostname: Map<string, FailedRequest> = new Map()
+        for (const tabFailures of this.failedRequestsByTab.values()) {
+            if (tabFailures.siteHostname !== siteHostname) {
+                continue
+            }
+            for (const request of tabFailures.requests) {
+                const known = byHostname.get(request.hostname)
+                if (!known || known.timestamp < request.timestamp) {
+                    byHostname.set(request.hostname, request)
+                }
+            }
+        }
+        return [...byHostname.values()].sort((a, b) => a.timestamp - b.timestamp)
+    }
+
+    async removeFailedRequestsForTab(tabId: number) {
+        await this.restoreState()
+        if (this.failedRequestsByTab.delete(tabId)) {
+            this.scheduleSave()
+        }
     }
 
-    getFailedRequestsCurrentTabHostname(currentTabHostname: string): FailedRequest[] {
-        return this.failedRequestsByHostname.get(currentTabHostname) || []
+    /**
+     * Forget everything recorded for a closed tab
+     */
+    async removeTab(tabId: number) {
+        await this.restoreState()
+        this.requestOriginsByTab.delete(tabId)
+        await this.removeFailedRequestsForTab(tabId)
+        this.scheduleSave()
     }
 
-    removeFailedRequestsForHostname(currentTabHostname: string) {
-        this.failedRequestsByHostname.delete(currentTabHostname)
+    async removeFailedRequestsForSite(siteHostname: string) {
+        await this.restoreState()
+        for (const [tabId, tabFailures] of this.failedRequestsByTab) {
+            if (tabFailures.siteHostname === siteHostname) {
+                this.failedRequestsByTab.delete(tabId)
+            }
+        }
+        this.scheduleSave()
     }
 
-    async getActiveTabHostname(): Promise<string> {
+    /**
+     * Start a fresh failure list when a tab commits a new top-level navigation
+     * Failures of the new document's own request, recorded just before the commit,
+     * are kept; requested origins start over with the new document's
+     * @param timeStamp Commit time from the webNavigation event
+     */
+    async handleNavigationCommitted(tabId: number, url: string, timeStamp: number) {
+        await this.restoreState()
+        this.requestOriginsByTab.delete(tabId)
+        this.addRequestOrigin(tabId, url)
+        const tabFailures = this.failedRequestsByTab.get(tabId)
+        if (!tabFailures) {
+            return
+        }
+        const requests = tabFailures.requests.filter(r => r.timestamp >= timeStamp || r.url === url)
+        if (requests.length > 0) {
+            this.failedRequestsByTab.set(tabId, { siteHostname: this.getHostname(url), requests })
+        } else {
+            this.failedRequestsByTab.delete(tabId)
+        }
+        this.scheduleSave()
+    }
+
+    private getHostname(url: string): string {
+        try {
+            return new URL(url).hostname
+        } catch {
+            return ''
+        }
+    }
+
+    async getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
         try {
             const [tab] = await chrome.tabs.query({
                 active: true,
                 currentWindow: true
             })
-            if (tab?.url) {
-                return new URL(tab.url).hostname
-            }
+            return tab
         } catch (error) {
-            console.error('Error getting active tab hostname:', error)
+            console.error('Error getting active tab:', error)
         }
-        return ''
+        return undefined
     }
 
     async resolveTabHostname(tabId: number): Promise<string> {
@@ -70,21 +318,32 @@ class RequestMonitorService {
     }
 
     async updateBadgeForActiveTab() {
-        const activeTabHostname = await this.getActiveTabHostname()
-        await this.updateBadge(activeTabHostname)
+        const activeTab = await this.getActiveTab()
+        await this.updateBadge(activeTab?.id)
+    }
+
+    /**
+     * Show a short confirmation on the badge, then the failure count again
+     */
+    flashBadge(text: string, color: string) {
+        chrome.action.setBadgeText({ text })
+        chrome.action.setBadgeBackgroundColor({ color })
+        setTimeout(() => {
+            this.updateBadgeForActiveTab()
+        }, BADGE_FLASH_MS)
     }
 
-    async updateBadge(currentTabHostname: string) {
+    async updateBadge(tabId: number | undefined) {
         try {
             if (!(await this.isMonitoringEnabled())) {
                 chrome.action.setBadgeText({ text: '' })
                 return
             }
-            if (!currentTabHostname || currentTabHostname.trim() === "") {
+            if (tabId === undefined || tabId === chrome.tabs.TAB_ID_NONE) {
                 chrome.action.setBadgeText({ text: '' })
                 return
             }
-            const failedRequests = this.failedRequestsByHostname.get(currentTabHostname) || []
+            const failedRequests = await this.getFailedRequestsForTab(tabId)
             const count = failedRequests.length
 
             if (count > 0) {
@@ -100,41 +359,51 @@ class RequestMonitorService {
     }
 
     /**
-     * Add failed request to monitoring list (grouped by hostname)
+     * Add failed request to the monitoring list of its tab (one entry per hostname)
      */
     async addFailedRequest(request: FailedRequest) {
         if (!(await this.isMonitoringEnabled())) {
             return
         }
         const currentTabHostname = request.currentTabHostname;
-        if (!currentTabHostname) {
-            console.error("No current tab hostname provided for failed request:", request);
+        if (!currentTabHostname || request.tabId === undefined) {
+            console.error("No tab provided for failed request:", request);
             return;
         }
-        let failedRequests = this.failedRequestsByHostname.get(currentTabHostname) || []
+        requestHistoryService.record(request)
+        await this.restoreState()
+        const tabFailures = this.failedRequestsByTab.get(request.tabId) || { siteHostname: currentTabHostname, requests: [] }
 
-        if (failedRequests.find(r => r.hostname === request.hostname)) {
+        if (tabFailures.requests.find(r => r.hostname === request.hostname)) {
             return
         }
-        failedRequests.push(request)
-        this.failedRequestsByHostname.set(currentTabHostname, failedRequests)
+        tabFailures.requests.push(request)
+        this.failedRequestsByTab.set(request.tabId, tabFailures)
+        this.scheduleSave()
         await this.updateBadgeForActiveTab()
     }
 
-    updateFailedRequestsForCurrentTab(currentTabHostname: string, hostnames: string[]) {
-        const failedRequests = this.getFailedRequestsCurrentTabHostname(currentTabHostname);
-        const remainingRequests = failedRequests.filter(req => !hostnames.includes(req.hostname));
-        if (remainingRequests.length > 0) {
-            this.failedRequestsByHostname.set(currentTabHostname, remainingRequests);
-        } else {
-            this.failedRequestsByHostname.delete(currentTabHostname);
+    /**
+     * Drop hostnames from every tab's list, e.g. once rules were added for them
+     */
+    async removeFailedHostnames(hostnames: string[]) {
+        await this.restoreState()
+        for (const [tabId, tabFailures] of this.failedRequestsByTab) {
+            const requests = tabFailures.requests.filter(req => !hostnames.includes(req.hostname));
+            if (requests.length > 0) {
+                this.failedRequestsByTab.set(tabId, { ...tabFailures, requests });
+            } else {
+                this.failedRequestsByTab.delete(tabId);
+            }
         }
-        this.updateBadgeForActiveTab()
+        this.scheduleSave()
+        await this.updateBadgeForActiveTab()
     }
 
     /**
      * Configure selective proxy using PAC script
-     * Only domains matching user rules will use proxy, others go direct
+     * Only domains matching user or subscription rules will use proxy, others go direct
+     * In the PAC URL and PAC script modes the user's PAC replaces the generated one
      */
     async configureSelectiveProxy() {
         const generalSettings = await generalSettingsService.getSettings();
@@ -143,13 +412,18 @@ class RequestMonitorService {
             await this.updateBadgeForActiveTab()
             return
         }
-        const proxyRules = await proxyRuleService.getRules();
-        if (!proxyRules || proxyRules.length === 0) {
+        if (generalSettings.proxyMode === 'pac_url' || generalSettings.proxyMode === 'pac_script') {
+            await this.configureExternalPac(generalSettings)
+            return
+        }
+        const proxyRules = await this.getRoutingRules()
+        const fallbackDirective = this.getFallbackDirective(generalSettings)
+        if (proxyRules.length === 0 && fallbackDirective === 'DIRECT') {
             await this.setDirectConnection()
             return
         }
 
-        const pacScript = this.generatePacScript(generalSettings, proxyRules)
+        const pacScript = this.generatePacScript(generalSettings, proxyRules, fallbackDirective)
         const proxyConfig = {
             mode: "pac_script" as const,
             pacScript: {
@@ -161,25 +435,11 @@ class RequestMonitorService {
         console.log('🔧 Configuring selective proxy with rules:', proxyConfig)
 
         try {
-            await chrome.proxy.settings.set({
-                value: proxyConfig,
-                scope: 'regular'
-            })
-
-            try {
-                await chrome.proxy.settings.set({
-                    value: proxyConfig,
-                    scope: 'incognito_persistent'
-                })
-                console.log('🔧 Incognito proxy also configured')
-            } catch (incognitoError) {
-                console.warn('⚠️ Could not configure incognito proxy:', incognitoError)
-            }
-
+            await this.applyProxyConfig(proxyConfig)
             console.log('🔧 Selective proxy configured:', {
                 mode: 'selective',
                 rules: proxyRules.map(r => r.pattern),
-                proxyServer: `${generalSettings.proxyServerScheme}://${generalSettings.proxyServerAddress}:${generalSettings.proxyServerPort}`
+                proxyProfiles: generalSettings.proxyProfiles.map(p => `${p.name} (${p.scheme}://${p.address}:${p.port})`)
             })
         } catch (error) {
             console.error('Error configuring selective proxy:', error)
@@ -187,6 +447,148 @@ class RequestMonitorService {
         }
     }
 
+    /**
+     * Rules the generated PAC script is built from: probed URLs, hosts of proxied
+     * tabs, then the user's and subscribed rules
+     */
+    private async getRoutingRules(): Promise<ProxyRule[]> {
+        return [
+            ...this.probeUrls.map((url): ProxyRule => ({ id: `probe_${url}`, pattern: `^${escapeRegExp(getPacUrl(url))}$`, type: 'regex' })),
+            ...await tabProxyService.getRules(),
+            ...await proxyRuleService.getEffectiveRules()
+        ]
+    }
+
+    /**
+     * Directive for requests no rule matches, the default profile in the global mode
+     */
+    private getFallbackDirective(generalSettings: GeneralSettings): string {
+        const defaultProfile = generalSettingsService.getProfileForRule(generalSettings)
+        return generalSettings.proxyMode === 'global' && generalSettingsService.hasProxyServer(defaultProfile)
+            ? this.profileToPacDirective(defaultProfile)
+            : 'DIRECT'
+    }
+
+    /**
+     * Rules generatePacScript emits, proxy rules whose profile has no server are left out
+     */
+    private getEmittedRules(generalSettings: GeneralSettings, proxyRules: ProxyRule[]): ProxyRule[] {
+        return proxyRules.filter(rule =>
+            isBypassRule(rule) || generalSettingsService.hasProxyServer(generalSettingsService.getProfileForRule(generalSettings, rule.proxyProfileId))
+        )
+    }
+
+    /**
+     * The PAC script the rules mode applies with the current rules, and the rules
+     * it was generated from
+     * Nothing is applied, the rule tester evaluates the script on its own
+     */
+    async getGeneratedPac(): Promise<{ pacScript: string; proxyRules: ProxyRule[] }> {
+        const generalSettings = await generalSettingsService.getSettings()
+        const proxyRules = this.getEmittedRules(generalSettings, await this.getRoutingRules())
+        return {
+            pacScript: this.generatePacScript(generalSettings, proxyRules, this.getFallbackDirective(generalSettings)),
+            proxyRules
+        }
+    }
+
+    /**
+     * Work out how URLs are routed with the current settings, the way the
+     * generated PAC script decides it
+     * In the PAC modes only the user's PAC file knows the answer
+     * @returns One route per URL, in the same order
+     */
+    async getRoutes(urls: string[]): Promise<RequestRoute[]> {
+        const generalSettings = await generalSettingsService.getSettings()
+        if (!generalSettings?.proxyEnabled) {
+            return urls.map(() => ({ type: 'direct' }))
+        }
+        if (generalSettings.proxyMode === 'pac_url' || generalSettings.proxyMode === 'pac_script') {
+            return urls.map(() => ({ type: 'pac' }))
+        }
+        const proxyRules = this.getEmittedRules(generalSettings, await this.getRoutingRules())
+        const tabRuleIds = new Set((await tabProxyService.getRules()).map(rule => rule.id))
+        const fallbackDirective = this.getFallbackDirective(generalSettings)
+
+        return urls.map((url): RequestRoute => {
+            const rule = findMatchingRule(proxyRules, url)
+            if (rule && isBypassRule(rule)) {
+                return { type: 'direct', rule }
+            }
+            if (!rule && (fallbackDirective === 'DIRECT' || ALWAYS_DIRECT_HOSTS.includes(getPacHost(url)))) {
+                return { type: 'direct' }
+            }
+            // The rule's profile, or the default profile of the global mode
+            const profile = generalSettingsService.getProfileForRule(generalSettings, rule?.proxyProfileId)
+            if (!profile) {
+                return { type: 'direct' }
+            }
+            return {
+                type: 'proxy',
+                rule,
+                tabOverride: rule ? tabRuleIds.has(rule.id) : undefined,
+                profileName: profile.name,
+                directive: this.profileToPacDirective(profile)
+            }
+        })
+    }
+
+    /**
+     * Route exactly these URLs through the default profile, on top of the rules, until
+     * the list is set again; only applies to the rules proxy mode
+     * Chrome hands https URLs to PAC scripts as their origin, so meanwhile every https
+     * request to the same host goes through the proxy too
+     */
+    async setProbeUrls(urls: string[]) {
+        this.probeUrls = urls
+        await this.configureSelectiveProxy()
+    }
+
+    /**
+     * Use the PAC file URL or pasted PAC script from the settings
+     * The pasted script is validated by the options page before it is saved,
+     * here it only has to mention FindProxyForURL; anything unusable goes direct
+     */
+    private async configureExternalPac(generalSettings: GeneralSettings) {
+        const pacUrl = generalSettings.pacUrl.trim()
+        const pacScript = generalSettings.proxyMode === 'pac_url'
+            ? (pacUrl ? { url: pacUrl, mandatory: false } : null)
+            : (generalSettings.pacScript.includes('FindProxyForURL') ? { data: generalSettings.pacScript } : null)
+        if (!pacScript) {
+            console.warn('⚠️ No usable PAC for mode', generalSettings.proxyMode, '- connecting directly')
+            await this.setDirectConnection()
+            return
+        }
+        try {
+            await this.applyProxyConfig({ mode: "pac_script", pacScript })
+            console.log('🔧 External PAC configured:', generalSettings.proxyMode === 'pac_url' ? pacUrl : 'pasted script')
+        } catch (error) {
+            console.error('Error configuring external PAC:', error)
+            await this.setDirectConnection()
+        }
+    }
+
+    /**
+     * Apply a proxy configuration to regular and incognito sessions
+     * Failing to configure incognito, e.g. when it isn't allowed, is only logged
+     */
+    private async applyProxyConfig(proxyConfig: chrome.proxy.ProxyConfig) {
+        await chrome.proxy.settings.set({
+            value: proxyConfig,
+            scope: 'regular'
+        })
+
+        try {
+            await chrome.proxy.settings.set({
+                value: proxyConfig,
+                scope: 'incognito_persistent'
+            })
+            console.log('🔧 Incognito proxy also configured')
+        } catch (incognitoError) {
+            console.warn('⚠️ Could not configure incognito proxy:', incognitoError)
+        }
+    }
+
     /**
      * Set direct connection mode (no proxy)
      * Applied to both regular and incognito sessions
@@ -214,49 +616,74 @@ class RequestMonitorService {
     }
 
     /**
-     * Convert a rule pattern to a PAC condition using shExpMatch/dnsDomainIs
+     * Convert a proxy server to a PAC proxy directive
+     * SOCKS5 passes host names to the proxy, which resolves them (remote DNS);
+     * SOCKS4 only carries IP addresses, so Chrome resolves host names locally first
      */
-    private ruleToPacCondition(pattern: string): string {
-        if (pattern.startsWith('*.')) {
-            const domain = pattern.substring(2)
-            return `(host === "${domain}" || dnsDomainIs(host, ".${domain}"))`
-        }
-        if (pattern.includes('*') || pattern.includes('?')) {
-            return `shExpMatch(host, "${pattern}")`
+    private endpointToPacDirective(endpoint: ProxyEndpoint): string {
+        const keyword = PAC_DIRECTIVE_KEYWORDS[endpoint.scheme.toLowerCase() as ProxyScheme] || "PROXY"
+        return `${keyword} ${endpoint.address}:${endpoint.port}`
+    }
+
+    /**
+     * Convert a proxy profile to a PAC fallback list
+     * Chrome tries the servers in order and moves on when one can't be reached,
+     * e.g. "PROXY primary:8080; PROXY backup:8080; DIRECT"
+     */
+    private profileToPacDirective(profile: ProxyProfile): string {
+        const directives = [profile, ...(profile.fallbacks || [])]
+            .filter(endpoint => endpoint.address && endpoint.port)
+            .map(endpoint => this.endpointToPacDirective(endpoint))
+        if (profile.fallbackToDirect) {
+            directives.push("DIRECT")
         }
-        return `(host === "${pattern}" || dnsDomainIs(host, ".${pattern}"))`
+        return directives.join("; ")
     }
 
     /**
      * Generate PAC script based on current settings and rules
+     * Bypass rules return DIRECT before any proxy rule is checked,
+     * proxy rules return the directive of their own proxy profile
+     * Conditions come from the shared rule matcher used by isInRules
+     * Consecutive rules with the same directive are compiled together, which keeps
+     * large imported lists to a few lookups per request
+     * Requests no rule matches get the fallback directive, DIRECT except in the global mode
      */
-    generatePacScript(generalSettings: GeneralSettings, proxyRules: ProxyRule[]): string {
-        if (!generalSettings || !proxyRules || proxyRules.length === 0) {
+    generatePacScript(generalSettings: GeneralSettings, proxyRules: ProxyRule[], fallbackDirective = 'DIRECT'): string {
+        if (!generalSettings || !proxyRules || (proxyRules.length === 0 && fallbackDirective === 'DIRECT')) {
             return 'function FindProxyForURL(url, host) { return "DIRECT"; }'
         }
 
-        let proxyString = ""
-        const scheme = generalSettings.proxyServerScheme.toLowerCase()
-        const address = generalSettings.proxyServerAddress
-        const port = generalSettings.proxyServerPort
-
-        if (scheme === "socks5" || scheme === "socks4") {
-            proxyString = `SOCKS ${address}:${port}`
-        } else {
-            proxyString = `PROXY ${address}:${port}`
+        const groups: { directive: string; rules: ProxyRule[] }[] = []
+        for (const rule of orderRulesForEvaluation(proxyRules)) {
+            let directive = "DIRECT"
+            if (!isBypassRule(rule)) {
+                const profile = generalSettingsService.getProfileForRule(generalSettings, rule.proxyProfileId)
+                if (!generalSettingsService.hasProxyServer(profile)) {
+                    continue
+                }
+                directive = this.profileToPacDirective(profile)
+            }
+            const lastGroup = groups[groups.length - 1]
+            if (lastGroup?.directive === directive) {
+                lastGroup.rules.push(rule)
+            } else {
+                groups.push({ directive, rules: [rule] })
+            }
         }
 
-        const conditions = proxyRules.map(rule => {
-            const condition = this.ruleToPacCondition(rule.pattern)
-            return `if (${condition}) { return "${proxyString}"; }`
+        const declarations = createPacDeclarations()
+        const conditions = groups.map(group => {
+            const condition = renderPacCondition(compileRuleGroup(group.rules), declarations)
+            return `if (${condition}) { return "${group.directive}"; }`
         }).join('\n    ')
 
-        return `function FindProxyForURL(url, host) {
-        if (host === 'localhost' || host === '127.0.0.1') { return "DIRECT"; }
+        return `${declarations.statements.map(statement => `${statement}\n`).join('')}function FindProxyForURL(url, host) {
+        if (${ALWAYS_DIRECT_HOSTS.map(h => `host === "${h}"`).join(' || ')}) { return "DIRECT"; }
 
         ${conditions}
 
-        return "DIRECT";
+        return "${fallbackDirective}";
     }`
     }
 }
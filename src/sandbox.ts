@@ -0,0 +1,49 @@
+/**
+ * Sandbox page for running PAC scripts
+ *
+ * Sandboxed pages may eval code, which the rest of the extension can't under the MV3
+ * content security policy. Requests come from pac-evaluator.ts through postMessage.
+ */
+import type { PacSandboxRequest, PacSandboxResponse } from "~utils/pac-evaluator"
+import { createPacEnvironment } from "~utils/pac-functions"
+
+/**
+ * Run a PAC script's top level code with the PAC functions in scope
+ * @returns FindProxyForURL as defined by the script
+ * @throws SyntaxError or whatever the script throws
+ */
+function loadPacScript(script: string): unknown {
+    const environment = createPacEnvironment()
+    const names = Object.keys(environment)
+    const load = new Function(
+        ...names,
+        `${script}\n;return typeof FindProxyForURL === "undefined" ? undefined : FindProxyForURL;`
+    )
+    return load(...names.map(name => environment[name]))
+}
+
+function handleRequest(request: PacSandboxRequest): PacSandboxResponse {
+    try {
+        const findProxyForURL = loadPacScript(request.script)
+        if (typeof findProxyForURL !== "function") {
+            return { id: request.id, valid: false, error: "FindProxyForURL is not defined" }
+        }
+        if (request.type === "evaluate") {
+            return { id: request.id, valid: true, result: String(findProxyForURL(request.url, request.host)) }
+        }
+        return { id: request.id, valid: true }
+    } catch (error) {
+        return {
+            id: request.id,
+            valid: false,
+            error: error instanceof Error ? `${error.name}: ${error.message}` : String(error)
+        }
+    }
+}
+
+window.addEventListener("message", (event: MessageEvent<PacSandboxRequest>) => {
+    if (!event.data || typeof event.data.id !== "number") {
+        return
+    }
+    (event.source as Window).postMessage(handleRequest(event.data), "*")
+})
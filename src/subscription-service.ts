@@ -0,0 +1,211 @@
+import type { ProxyRule, RuleSubscription } from './types/common'
+import { STORAGE_KEYS } from '~types/common'
+import { parseRulesAs } from '~utils/rule-transfer'
+import { localStorage } from '~utils/storage'
+
+// Alarm names are this prefix followed by the subscription id
+const ALARM_PREFIX = 'subscription:'
+// Give up on a list that takes longer than this to download
+const FETCH_TIMEOUT_MS = 30 * 1000
+
+/**
+ * Remote rule lists
+ * Subscriptions and their fetched rules live in local storage, apart from the
+ * user's own chunked sync rules, and are merged after them by getEffectiveRules
+ */
+class SubscriptionService {
+    private rulesCache: ProxyRule[] | null = null
+    private watchingStorage = false
+    private refreshing: Set<string> = new Set()
+
+    private rulesKey(subscriptionId: string): string {
+        return `${STORAGE_KEYS.SUBSCRIPTION_RULES}_${subscriptionId}`
+    }
+
+    async getSubscriptions(): Promise<RuleSubscription[]> {
+        return (await localStorage.get<RuleSubscription[]>(STORAGE_KEYS.RULE_SUBSCRIPTIONS)) || []
+    }
+
+    async saveSubscriptions(subscriptions: RuleSubscription[]) {
+        await localStorage.set(STORAGE_KEYS.RULE_SUBSCRIPTIONS, subscriptions)
+        this.rulesCache = null
+    }
+
+    async addSubscription(subscription: RuleSubscription): Promise<RuleSubscription[]> {
+        const subscriptions = await this.getSubscriptions()
+        subscriptions.push(subscription)
+        await this.saveSubscriptions(subscriptions)
+        return subscriptions
+    }
+
+    async updateSubscription(subscriptionId: string, update: Partial<RuleSubscription>): Promise<boolean> {
+        const subscriptions = await this.getSubscriptions()
+        const index = subscriptions.findIndex(s => s.id === subscriptionId)
+        if (index === -1) {
+            return false
+        }
+        subscriptions[index] = {
+            ...subscriptions[index],
+            ...update,
+            id: subscriptionId
+        }
+        await this.saveSubscriptions(subscriptions)
+        return true
+    }
+
+    async deleteSubscription(subscriptionId: string): Promise<RuleSubscription[]> {
+        const subscriptions = (await this.getSubscriptions()).filter(s => s.id !== subscriptionId)
+        await this.saveSubscriptions(subscriptions)
+        await localStorage.remove(this.rulesKey(subscriptionId))
+        return subscriptions
+    }
+
+    async getSubscriptionRules(subscriptionId: string): Promise<ProxyRule[]> {
+        return (await localStorage.get<ProxyRule[]>(this.rulesKey(subscriptionId))) || []
+    }
+
+    /**
+     * Rules of all enabled subscriptions, in subscription order
+     * Proxy rules get the subscription's profile here, so changing it needs no refetch
+     * Kept in memory because the request listeners ask for them on every request;
+     * any change to the stored subscriptions drops the copy
+     */
+    async getAllSubscriptionRules(): Promise<ProxyRule[]> {
+        if (this.rulesCache) {
+            return this.rulesCache
+        }
+        this.watchStorage()
+        const rules: ProxyRule[] = []
+        for (const subscription of await this.getSubscriptions()) {
+            if (!subscription.enabled) {
+                continue
+            }
+            for (const rule of await this.getSubscriptionRules(subscription.id)) {
+                rules.push(rule.action === 'bypass' ? rule : { ...rule, proxyProfileId: subscription.proxyProfileId })
+            }
+        }
+        this.rulesCache = rules
+        return rules
+    }
+
+    private watchStorage() {
+        if (this.watchingStorage) {
+            return
+        }
+        this.watchingStorage = true
+        chrome.storage.onChanged.addListener((changes, area) => {
+            if (area === 'local' && Object.keys(changes).some(key => this.isSubscriptionKey(key))) {
+                this.rulesCache = null
+            }
+        })
+    }
+
+    isSubscriptionKey(key: string): boolean {
+        return key === STORAGE_KEYS.RULE_SUBSCRIPTIONS || key.startsWith(`${STORAGE_KEYS.SUBSCRIPTION_RULES}_`)
+    }
+
+    /**
+     * Download and parse a subscription, then record the outcome on it
+     * A failed fetch keeps the rules of the last successful one
+     * @returns The updated subscription, undefined when it doesn't exist
+     */
+    async refreshSubscription(subscriptionId: string): Promise<RuleSubscription | undefined> {
+        const subscription = (await this.getSubscriptions()).find(s => s.id === subscriptionId)
+        if (!subscription || this.refreshing.has(subscriptionId)) {
+            return subscription
+        }
+        this.refreshing.add(subscriptionId)
+        const status: Partial<RuleSubscription> = { lastFetchTime: Date.now() }
+        try {
+            const { rules, invalid } = parseRulesAs(await this.download(subscription.url), subscription.format)
+            const subscriptionRules = rules.map(({ proxyProfileId, ...rule }) => ({
+                ...rule,
+                id: `${subscriptionId}_${rule.id}`,
+                subscriptionId
+            }))
+            await localStorage.set(this.rulesKey(subscriptionId), subscriptionRules)
+            this.rulesCache = null
+            Object.assign(status, {
+                lastSuccessTime: status.lastFetchTime,
+                lastError: undefined,
+                ruleCount: subscriptionRules.length,
+                invalidCount: invalid.length
+            })
+            console.log(`📥 Subscription ${subscription.name} refreshed: ${subscriptionRules.length} rules`)
+        } catch (error) {
+            status.lastError = error instanceof Error ? error.message : String(error)
+            console.error(`Error refreshing subscription ${subscription.name}:`, error)
+        } finally {
+            this.refreshing.delete(subscriptionId)
+        }
+        await this.updateSubscription(subscriptionId, status)
+        return { ...subscription, ...status }
+    }
+
+    private async download(url: string): Promise<string> {
+        const controller = new AbortController()
+        const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS)
+        try {
+            const response = await fetch(url, { cache: 'no-store', signal: controller.signal })
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status} ${response.statusText}`.trim())
+            }
+            return await response.text()
+        } finally {
+            clearTimeout(timeout)
+        }
+    }
+
+    /**
+     * Refresh enabled subscriptions never fetched or whose interval has passed
+     * Covers new subscriptions and alarms missed while the browser was closed
+     */
+    async refreshDueSubscriptions() {
+        const now = Date.now()
+        for (const subscription of await this.getSubscriptions()) {
+            const due = !subscription.lastFetchTime ||
+                now - subscription.lastFetchTime >= subscription.refreshIntervalMinutes * 60 * 1000
+            if (subscription.enabled && due) {
+                await this.refreshSubscription(subscription.id)
+            }
+        }
+    }
+
+    /**
+     * Keep one repeating alarm per enabled subscription, with its refresh interval
+     */
+    async syncAlarms() {
+        const subscriptions = (await this.getSubscriptions()).filter(s => s.enabled)
+        const alarms = (await chrome.alarms.getAll()).filter(alarm => alarm.name.startsWith(ALARM_PREFIX))
+        for (const alarm of alarms) {
+            const subscription = subscriptions.find(s => ALARM_PREFIX + s.id === alarm.name)
+            if (!subscription || alarm.periodInMinutes !== subscription.refreshIntervalMinutes) {
+                await chrome.alarms.clear(alarm.name)
+            }
+        }
+        for (const subscription of subscriptions) {
+            const name = ALARM_PREFIX + subscription.id
+            if (!(await chrome.alarms.get(name))) {
+                await chrome.alarms.create(name, {
+                    delayInMinutes: subscription.refreshIntervalMinutes,
+                    periodInMinutes: subscription.refreshIntervalMinutes
+                })
+            }
+        }
+    }
+
+    /**
+     * Refresh the subscription an alarm belongs to
+     * @returns false when the alarm is not a subscription alarm
+     */
+    async handleAlarm(alarm: chrome.alarms.Alarm): Promise<boolean> {
+        if (!alarm.name.startsWith(ALARM_PREFIX)) {
+            return false
+        }
+        await this.refreshSubscription(alarm.name.substring(ALARM_PREFIX.length))
+        return true
+    }
+}
+
+const subscriptionService = new SubscriptionService()
+export default subscriptionService
@@ -0,0 +1,108 @@
+import type { ProxyRule, TabProxyOverride } from './types/common'
+import { STORAGE_KEYS } from '~types/common'
+import { sessionStorage } from '~utils/storage'
+
+/**
+ * "Proxy this tab" overrides
+ * A PAC script only sees the URL, not the tab sending the request, so every host an
+ * overridden tab requests becomes a temporary host rule; those hosts are proxied for
+ * all tabs until the overridden tab closes or leaves its site
+ * The first request to a host the tab hasn't used before goes out before its rule
+ * exists, reloading the tab after turning the override on catches those
+ * Overrides are kept in session storage, keyed by tab id
+ */
+class TabProxyService {
+    private overrides: Record<string, TabProxyOverride> | undefined
+    // Overrides change one at a time, a page requests many hosts at once
+    private queue: Promise<unknown> = Promise.resolve()
+
+    private async load(): Promise<Record<string, TabProxyOverride>> {
+        if (!this.overrides) {
+            this.overrides = (await sessionStorage.get<Record<string, TabProxyOverride>>(STORAGE_KEYS.TAB_PROXY_OVERRIDES)) || {}
+        }
+        return this.overrides
+    }
+
+    private update<T>(change: (overrides: Record<string, TabProxyOverride>) => T): Promise<T> {
+        const result = this.queue.then(async () => {
+            const overrides = await this.load()
+            const value = change(overrides)
+            await sessionStorage.set(STORAGE_KEYS.TAB_PROXY_OVERRIDES, overrides)
+            return value
+        })
+        this.queue = result.catch(() => undefined)
+        return result
+    }
+
+    async getOverride(tabId: number): Promise<TabProxyOverride | undefined> {
+        return (await this.load())[tabId]
+    }
+
+    /**
+     * Start proxying a tab's requests, beginning with its own site
+     */
+    async enable(tabId: number, siteHostname: string): Promise<TabProxyOverride> {
+        return this.update(overrides => {
+            overrides[tabId] = { siteHostname, hosts: [siteHostname] }
+            return overrides[tabId]
+        })
+    }
+
+    /**
+     * @returns false when the tab had no override
+     */
+    async disable(tabId: number): Promise<boolean> {
+        if (!(await this.getOverride(tabId))) {
+            return false
+        }
+        return this.update(overrides => delete overrides[tabId])
+    }
+
+    /**
+     * Remember a host requested by a tab
+     * @returns true when the host is new to an overridden tab and the proxy needs updating
+     */
+    async observeRequest(tabId: number, hostname: string): Promise<boolean> {
+        const override = await this.getOverride(tabId)
+        if (!override || override.hosts.includes(hostname)) {
+            return false
+        }
+        return this.update(overrides => {
+            const current = overrides[tabId]
+            if (!current || current.hosts.includes(hostname)) {
+                return false
+            }
+            current.hosts.push(hostname)
+            return true
+        })
+    }
+
+    /**
+     * End the override of a tab navigating away from its site
+     * @returns true when the override was ended
+     */
+    async handleNavigation(tabId: number, url: string): Promise<boolean> {
+        const override = await this.getOverride(tabId)
+        if (!override) {
+            return false
+        }
+        let hostname: string
+        try {
+            hostname = new URL(url).hostname
+        } catch {
+            return false
+        }
+        return hostname !== override.siteHostname && await this.disable(tabId)
+    }
+
+    /**
+     * Host rules for the hosts of all overridden tabs
+     */
+    async getRules(): Promise<ProxyRule[]> {
+        const hosts = new Set(Object.values(await this.load()).flatMap(override => override.hosts))
+        return [...hosts].map((host): ProxyRule => ({ id: `tab_${host}`, pattern: host, type: 'host' }))
+    }
+}
+
+const tabProxyService = new TabProxyService()
+export default tabProxyService
@@ -2,17 +2,96 @@
 
 export interface GeneralSettings {
     responseTimeThreshold: number
-    proxyServerAddress: string
-    proxyServerPort: number
-    proxyServerScheme: string
-    proxyUsername: string
-    proxyPassword: string
+    proxyProfiles: ProxyProfile[]
+    defaultProxyProfileId: string
     proxyEnabled: boolean
+    // Where the PAC script comes from, rules generate it by default
+    proxyMode: ProxyMode
+    pacUrl: string
+    pacScript: string
+    // net::ERR_* codes the monitor doesn't record
+    ignoredErrors: string[]
+    autoProxy: AutoProxySettings
+}
+
+// Adding proxy rules for hosts that keep failing, without going through the popup
+export interface AutoProxySettings {
+    enabled: boolean
+    // Failures of a pattern within the window that trigger a rule
+    failureThreshold: number
+    windowMinutes: number
+    // Domains never added automatically, including their subdomains
+    excludedDomains: string[]
+}
+
+/**
+ * rules: PAC script generated from the proxy rules
+ * global: everything goes through the default profile, bypass rules still go direct
+ * pac_url: PAC file downloaded by Chrome from a URL
+ * pac_script: PAC script pasted by the user
+ */
+export type ProxyMode = 'rules' | 'global' | 'pac_url' | 'pac_script'
+
+// A single proxy server with its credentials
+export interface ProxyEndpoint {
+    scheme: string
+    address: string
+    port: number
+    username: string
+    password: string
+}
+
+// A named proxy server that rules can route traffic through
+export interface ProxyProfile extends ProxyEndpoint {
+    id: string
+    name: string
+    // Servers tried in order when the ones before them can't be reached
+    fallbacks?: ProxyEndpoint[]
+    // Connect directly once every server of the chain failed
+    fallbackToDirect?: boolean
 }
 
 export interface ProxyRule {
     id: string
     pattern: string
+    // How the pattern is interpreted, inferred from the pattern when missing
+    type?: ProxyRuleType
+    // Bypass rules send matching requests direct and win over proxy rules
+    action?: ProxyRuleAction
+    // Profile used for matching requests, falls back to the default profile
+    proxyProfileId?: string
+    // Subscription the rule was fetched from, unset for the user's own rules
+    subscriptionId?: string
+    // How the rule was created, unset for rules the user added
+    origin?: ProxyRuleOrigin
+    createdAt?: number
+    // Time the rule is removed at, unset for permanent rules
+    expiresAt?: number
+}
+
+// auto: added by the auto-proxy mode after repeated failures
+export type ProxyRuleOrigin = 'auto'
+
+// Format of a subscribed rule list
+export type RuleSubscriptionFormat = 'text' | 'autoproxy' | 'json'
+
+// A remote rule list fetched periodically and merged after the user's own rules
+export interface RuleSubscription {
+    id: string
+    name: string
+    url: string
+    format: RuleSubscriptionFormat
+    refreshIntervalMinutes: number
+    enabled: boolean
+    // Profile used by the list's proxy rules, falls back to the default profile
+    proxyProfileId?: string
+    // Status of the last fetch, successful or not
+    lastFetchTime?: number
+    lastSuccessTime?: number
+    lastError?: string
+    ruleCount: number
+    // Lines of the last successful fetch that could not be turned into rules
+    invalidCount?: number
 }
 
 // Proxy configuration related types
@@ -27,6 +106,16 @@ export interface ProxyConfig {
     }
 }
 
+// Proxy server that rejected the credentials of its profile
+export interface ProxyAuthFailure {
+    profileId: string
+    profileName: string
+    host: string
+    port: number
+    username: string
+    timestamp: number
+}
+
 export interface PendingRequest {
     requestId: string
     url: string
@@ -41,20 +130,98 @@ export interface FailedRequest {
     url: string
     hostname: string
     currentTabHostname: string
+    // Tab that made the request, absent in history saved before tabs were tracked
+    tabId?: number
     responseTime?: number
     error?: string
     timestamp: number
     status?: number
 }
 
+/**
+ * Outcome of retrying a failed hostname directly and through the proxy
+ * proxyFixes: only the proxied request succeeded
+ * failsBoth: the host is down for everyone, a rule won't help
+ * directWorks: the failure was transient
+ */
+export type ProxyProbeStatus = 'proxyFixes' | 'failsBoth' | 'directWorks'
+
+export interface ProxyProbeResult {
+    status: ProxyProbeStatus
+    checkedAt: number
+}
+
+/**
+ * How a request is routed with the current settings
+ * proxy: through a profile, direct: no proxy, pac: decided by the user's PAC file
+ */
+export interface RequestRoute {
+    type: 'proxy' | 'direct' | 'pac'
+    // Rule that decided the route, unset when none matched
+    rule?: ProxyRule
+    // The rule comes from a "Proxy this tab" override
+    tabOverride?: boolean
+    profileName?: string
+    // PAC directive of the profile, e.g. `SOCKS5 host:1080; DIRECT`
+    directive?: string
+}
+
+// A tab whose requests are all proxied until it closes, whatever the rules say
+export interface TabProxyOverride {
+    // Site the override was turned on for, navigating to another site ends it
+    siteHostname: string
+    // Hosts the tab requested so far
+    hosts: string[]
+}
+
 // Storage key name constants
 export const STORAGE_KEYS = {
     GENERAL_SETTINGS: 'generalSettings',
-    PROXY_RULES: 'proxyRules'
+    PROXY_RULES: 'proxyRules',
+    RULE_SUBSCRIPTIONS: 'ruleSubscriptions',
+    // Followed by `_<subscription id>`, one key per subscription
+    SUBSCRIPTION_RULES: 'subscriptionRules',
+    REQUEST_HISTORY: 'requestHistory',
+    // Session storage
+    REQUEST_MONITOR_STATE: 'requestMonitorState',
+    AUTO_PROXY_FAILURES: 'autoProxyFailures',
+    PROXY_PROBE_RESULTS: 'proxyProbeResults',
+    TAB_PROXY_OVERRIDES: 'tabProxyOverrides',
+    PROXY_AUTH_STATE: 'proxyAuthState'
 } as const
+// Id of the profile created from settings saved before profiles existed
+export const DEFAULT_PROXY_PROFILE_ID = 'default'
 // Number of chunks to split proxy rules into for storage
 export const PROXY_RULES_CHUNK_COUNT = 50
 
+/**
+ * Rule pattern types
+ * host: exact hostname
+ * domain: a domain and all of its subdomains
+ * wildcard: shell expression on the hostname (`*` and `?`)
+ * regex: regular expression on the full URL
+ * url_prefix: the URL starts with the pattern
+ * cidr: IPv4 or IPv6 address range of IP literal hosts
+ */
+export type ProxyRuleType = 'host' | 'domain' | 'wildcard' | 'regex' | 'url_prefix' | 'cidr'
+
+// What happens to requests matching a rule, defaults to proxy
+export type ProxyRuleAction = 'proxy' | 'bypass'
+
+/**
+ * How much of a site a pattern made from a URL covers
+ * host: only the exact hostname
+ * parent: the hostname's siblings, www.example.com -> *.example.com
+ * domain: the registrable domain and all its subdomains, a.b.example.com -> example.com, a.b.example.co.uk -> example.co.uk
+ */
+export type PatternGranularity = 'host' | 'parent' | 'domain'
+
+// Refresh intervals offered for subscriptions, in minutes
+export const SUBSCRIPTION_REFRESH_INTERVALS = [60, 6 * 60, 12 * 60, 24 * 60, 7 * 24 * 60]
+
+// Supported rule pattern types
+export const PROXY_RULE_TYPES: ProxyRuleType[] = ['domain', 'host', 'wildcard', 'regex', 'url_prefix', 'cidr']
+
 // Proxy protocol types
 export type ProxyScheme = 'http' | 'https' | 'socks4' | 'socks5'
 
@@ -0,0 +1,169 @@
+/**
+ * AutoProxy rule list parser (the format of GFWList)
+ *
+ * Supported lines:
+ * - `||example.com` domain and subdomains, optionally followed by a path
+ * - `|http://example.com/path` URL prefix, a trailing `|` anchors the end
+ * - `/regex/` regular expression on the URL
+ * - `example.com/path` keyword anywhere in an http:// URL
+ * - `@@` in front of any of the above marks an exception
+ * `!` comments and the `[AutoProxy x.y]` header are skipped, the whole list may be base64 encoded.
+ * Lines using Adblock Plus features AutoProxy doesn't have are reported instead of dropped.
+ */
+import type { ProxyRule, ProxyRuleType } from "~types/common"
+import { isValidRulePattern } from "~utils/rule-matcher"
+import { generateId } from "~utils/util"
+
+export type AutoProxyIssueReason = "elementHiding" | "unsupportedOption" | "invalidPattern"
+
+export interface AutoProxyIssue {
+    // 1-based line number in the decoded list
+    line: number
+    entry: string
+    reason: AutoProxyIssueReason
+}
+
+export interface AutoProxyEntry {
+    line: number
+    text: string
+    // `@@` exceptions, routed direct
+    exclusion: boolean
+    pattern: string
+    type: ProxyRuleType
+}
+
+export interface AutoProxyParseResult {
+    entries: AutoProxyEntry[]
+    issues: AutoProxyIssue[]
+}
+
+const HEADER_PATTERN = /^\[AutoProxy[^\]]*\]$/i
+const BASE64_PATTERN = /^[A-Za-z0-9+/=\s]+$/
+// Adblock Plus separator placeholder: any character that can't be part of a host, or the end
+const SEPARATOR_REGEX = "(?:[^\\w.%-]|$)"
+
+/**
+ * Decode a base64 wrapped list such as the published gfwlist.txt
+ * Plain text lists are returned unchanged
+ */
+export function decodeAutoProxyList(text: string): string {
+    const trimmed = text.trim()
+    if (!trimmed || HEADER_PATTERN.test(trimmed.split(/\r?\n/, 1)[0]) || !BASE64_PATTERN.test(trimmed)) {
+        return text
+    }
+    try {
+        const binary = atob(trimmed.replace(/\s+/g, ""))
+        const bytes = Uint8Array.from(binary, c => c.charCodeAt(0))
+        return new TextDecoder().decode(bytes)
+    } catch {
+        return text
+    }
+}
+
+/**
+ * Check whether a text is an AutoProxy list, plain or base64 encoded
+ */
+export function isAutoProxyList(text: string): boolean {
+    const firstLine = decodeAutoProxyList(text).trim().split(/\r?\n/, 1)[0]
+    return HEADER_PATTERN.test(firstLine.trim())
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Convert an Adblock Plus style pattern body, `*` any characters and `^` a separator
+ */
+function patternToRegex(pattern: string): string {
+    return pattern.split("*").map(part =>
+        part.split("^").map(escapeRegExp).join(SEPARATOR_REGEX)
+    ).join(".*")
+}
+
+/**
+ * Convert one rule, without its `@@` prefix
+ * @returns The rule pattern and type, or the reason it can't be converted
+ */
+function convertPattern(value: string): { pattern: string; type: ProxyRuleType } | AutoProxyIssueReason {
+    if (value.includes("##") || value.includes("#@#")) {
+        return "elementHiding"
+    }
+    if (value.length > 2 && value.startsWith("/") && value.endsWith("/")) {
+        return { pattern: value.substring(1, value.length - 1), type: "regex" }
+    }
+    if (/\$~?[\w-]+(=[^,]*)?(,~?[\w-]+(=[^,]*)?)*$/.test(value)) {
+        return "unsupportedOption"
+    }
+
+    if (value.startsWith("||")) {
+        const rest = value.substring(2).replace(/\^$/, "")
+        const slash = rest.indexOf("/")
+        const host = slash === -1 ? rest : rest.substring(0, slash)
+        const path = slash === -1 ? "" : rest.substring(slash)
+        if (!/[*^|]/.test(host) && (path === "" || path === "/")) {
+            return { pattern: host.toLowerCase(), type: "domain" }
+        }
+        const end = path.endsWith("|") ? "$" : ""
+        return {
+            pattern: `^[\\w+.-]+://([^/:]*\\.)?${patternToRegex(host + path.replace(/\|$/, ""))}${end}`,
+            type: "regex"
+        }
+    }
+
+    if (value.startsWith("|")) {
+        const end = value.endsWith("|") && value.length > 2
+        const rest = value.substring(1, end ? value.length - 1 : value.length)
+        if (!end && !/[*^]/.test(rest)) {
+            return { pattern: rest, type: "url_prefix" }
+        }
+        return { pattern: `^${patternToRegex(rest)}${end ? "$" : ""}`, type: "regex" }
+    }
+
+    // Keywords only ever applied to plain http:// URLs, https:// URLs were not visible to AutoProxy
+    const end = value.endsWith("|")
+    const keyword = end ? value.substring(0, value.length - 1) : value
+    return { pattern: `^http://.*${patternToRegex(keyword)}${end ? "$" : ""}`, type: "regex" }
+}
+
+/**
+ * Parse an AutoProxy list into rule patterns
+ * @param text List content, plain or base64 encoded
+ */
+export function parseAutoProxyEntries(text: string): AutoProxyParseResult {
+    const result: AutoProxyParseResult = { entries: [], issues: [] }
+    decodeAutoProxyList(text).split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.trim()
+        if (!line || line.startsWith("!") || HEADER_PATTERN.test(line)) {
+            return
+        }
+        const exclusion = line.startsWith("@@")
+        const converted = convertPattern(exclusion ? line.substring(2) : line)
+        if (typeof converted === "string") {
+            result.issues.push({ line: index + 1, entry: line, reason: converted })
+            return
+        }
+        if (!isValidRulePattern(converted.type, converted.pattern)) {
+            result.issues.push({ line: index + 1, entry: line, reason: "invalidPattern" })
+            return
+        }
+        result.entries.push({ line: index + 1, text: line, exclusion, ...converted })
+    })
+    return result
+}
+
+/**
+ * Parse an AutoProxy list into proxy rules
+ * Exceptions become bypass rules, the others use the default profile
+ */
+export function parseAutoProxyList(text: string): { rules: ProxyRule[]; issues: AutoProxyIssue[] } {
+    const { entries, issues } = parseAutoProxyEntries(text)
+    const rules = entries.map(entry => {
+        const rule: ProxyRule = { id: generateId(), pattern: entry.pattern, type: entry.type }
+        if (entry.exclusion) {
+            rule.action = "bypass"
+        }
+        return rule
+    })
+    return { rules, issues }
+}
@@ -0,0 +1,20 @@
+/**
+ * Registrable domains, without shipping the whole public suffix list
+ *
+ * Many country code domains register names under generic second levels, e.g.
+ * bbc.co.uk or sina.com.cn; those second levels count as part of the suffix
+ */
+
+// Second-level labels used as public suffixes below two-letter country code domains
+const SECOND_LEVEL_SUFFIXES = new Set(["ac", "co", "com", "edu", "gov", "ltd", "mil", "ne", "net", "or", "org", "plc", "sch"])
+
+/**
+ * The domain a site registered, e.g. www.bbc.co.uk -> bbc.co.uk, a.b.example.com -> example.com
+ * Hosts with no label before the suffix, like co.uk, are returned as they are
+ */
+export function getRegistrableDomain(hostname: string): string {
+    const labels = hostname.split(".")
+    const topLevel = labels[labels.length - 1]
+    const suffixLength = labels.length > 2 && topLevel.length === 2 && SECOND_LEVEL_SUFFIXES.has(labels[labels.length - 2]) ? 2 : 1
+    return labels.slice(-(suffixLength + 1)).join(".")
+}
@@ -0,0 +1,82 @@
+/**
+ * Classify failed requests by what probably went wrong
+ *
+ * Censoring networks tend to poison DNS, reset connections after the TLS hello or
+ * drop packets until the request times out; refused connections and certificate
+ * errors more often mean the server itself has a problem.
+ */
+import type { FailedRequest } from "~types/common"
+
+export type ErrorCategory = "dns" | "connection" | "tls" | "timeout" | "slow" | "other"
+
+// How likely sending the host through a proxy fixes the failure
+export type ProxyLikelihood = "high" | "medium" | "low"
+
+export interface ErrorClassification {
+    category: ErrorCategory
+    likelihood: ProxyLikelihood
+}
+
+// Errors that never reach the network, or that the user caused
+export const DEFAULT_IGNORED_ERRORS = [
+    "net::ERR_ABORTED",
+    "net::ERR_INTERNET_DISCONNECTED",
+    "net::ERR_CONNECTION_ABORTED",
+    "net::ERR_BLOCKED_BY_CLIENT",
+    "net::ERR_CACHE_MISS"
+]
+
+const CATEGORY_LIKELIHOOD: Record<ErrorCategory, ProxyLikelihood> = {
+    dns: "high",
+    connection: "high",
+    tls: "medium",
+    timeout: "high",
+    slow: "medium",
+    other: "low"
+}
+
+// Codes whose likelihood differs from the rest of their category
+const LIKELIHOOD_OVERRIDES: Record<string, ProxyLikelihood> = {
+    "net::ERR_CONNECTION_REFUSED": "low",
+    "net::ERR_SSL_PROTOCOL_ERROR": "high",
+    "net::ERR_CERT_COMMON_NAME_INVALID": "medium",
+    "net::ERR_CERT_DATE_INVALID": "low"
+}
+
+function getErrorCategory(error: string): ErrorCategory {
+    const code = error.replace(/^net::/, "")
+    if (/^ERR_(NAME_NOT_RESOLVED|NAME_RESOLUTION_FAILED|DNS_)/.test(code)) {
+        return "dns"
+    }
+    if (/TIMED_OUT$/.test(code)) {
+        return "timeout"
+    }
+    if (/^ERR_(SSL_|CERT_|BAD_SSL_)/.test(code)) {
+        return "tls"
+    }
+    if (/^ERR_(CONNECTION_|EMPTY_RESPONSE|ADDRESS_UNREACHABLE|NETWORK_CHANGED|SOCKET_|TUNNEL_)/.test(code)) {
+        return "connection"
+    }
+    return "other"
+}
+
+/**
+ * Classify a failed request from its error code, or as slow when it has none
+ */
+export function classifyFailure(request: Pick<FailedRequest, "error" | "responseTime">): ErrorClassification {
+    if (!request.error) {
+        const category = request.responseTime !== undefined ? "slow" : "other"
+        return { category, likelihood: CATEGORY_LIKELIHOOD[category] }
+    }
+    const category = getErrorCategory(request.error)
+    return { category, likelihood: LIKELIHOOD_OVERRIDES[request.error] || CATEGORY_LIKELIHOOD[category] }
+}
+
+/**
+ * Normalize an error code typed by the user, `ERR_FOO` or `net::err_foo` to `net::ERR_FOO`
+ * @returns The code, or an empty string when it isn't a network error code
+ */
+export function normalizeErrorCode(value: string): string {
+    const code = value.trim().replace(/^net::/i, "").toUpperCase()
+    return /^ERR_[A-Z0-9_]+$/.test(code) ? `net::${code}` : ""
+}
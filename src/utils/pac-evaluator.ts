@@ -0,0 +1,114 @@
+/**
+ * Runs PAC scripts in the extension's sandbox page
+ *
+ * The MV3 content security policy forbids eval in extension pages, so scripts are sent
+ * to a hidden sandbox.html iframe (src/sandbox.ts) with postMessage. Only usable from
+ * pages with a document, such as the options page and the popup.
+ */
+import { getPacHost, getPacUrl } from "~utils/rule-matcher"
+
+// How long the sandbox gets to answer, a script stuck in a loop never does
+const SANDBOX_TIMEOUT_MS = 5000
+
+type PacSandboxMessage =
+    | { type: "validate"; script: string }
+    | { type: "evaluate"; script: string; url: string; host: string }
+
+export type PacSandboxRequest = { id: number } & PacSandboxMessage
+
+export interface PacValidationResult {
+    valid: boolean
+    error?: string
+}
+
+export interface PacEvaluationResult {
+    // What FindProxyForURL returned, e.g. "SOCKS5 127.0.0.1:1080; DIRECT"
+    result?: string
+    error?: string
+}
+
+export type PacSandboxResponse = { id: number } & PacValidationResult & PacEvaluationResult
+
+class PacEvaluator {
+    private frame: Promise<HTMLIFrameElement> | null = null
+    private nextId = 1
+    private pending: Map<number, (response: PacSandboxResponse) => void> = new Map()
+
+    private getFrame(): Promise<HTMLIFrameElement> {
+        if (!this.frame) {
+            this.frame = new Promise((resolve, reject) => {
+                const iframe = document.createElement("iframe")
+                iframe.src = chrome.runtime.getURL("sandbox.html")
+                iframe.style.display = "none"
+                iframe.onload = () => resolve(iframe)
+                iframe.onerror = () => {
+                    this.frame = null
+                    reject(new Error("PAC sandbox failed to load"))
+                }
+                window.addEventListener("message", (event: MessageEvent<PacSandboxResponse>) => {
+                    if (event.source !== iframe.contentWindow) {
+                        return
+                    }
+                    this.pending.get(event.data?.id)?.(event.data)
+                })
+                document.body.appendChild(iframe)
+            })
+        }
+        return this.frame
+    }
+
+    private async request(message: PacSandboxMessage): Promise<PacSandboxResponse> {
+        const iframe = await this.getFrame()
+        const id = this.nextId++
+        return new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                this.pending.delete(id)
+                reject(new Error("PAC script did not finish in time"))
+            }, SANDBOX_TIMEOUT_MS)
+            this.pending.set(id, (response) => {
+                clearTimeout(timeout)
+                this.pending.delete(id)
+                resolve(response)
+            })
+            // The sandbox has an opaque origin, so the target origin can't be narrowed
+            iframe.contentWindow.postMessage({ ...message, id }, "*")
+        })
+    }
+
+    /**
+     * Check that a PAC script parses and defines FindProxyForURL
+     * The script's top level code runs once, FindProxyForURL itself isn't called
+     */
+    async validate(script: string): Promise<PacValidationResult> {
+        if (!script.trim()) {
+            return { valid: false, error: "The script is empty" }
+        }
+        try {
+            const { valid, error } = await this.request({ type: "validate", script })
+            return { valid, error }
+        } catch (error) {
+            return { valid: false, error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+
+    /**
+     * Run a PAC script and call FindProxyForURL for a URL
+     * The URL and host are passed the way Chrome passes them, DNS functions only
+     * know IP literals so the result doesn't depend on the network
+     */
+    async evaluate(script: string, url: string): Promise<PacEvaluationResult> {
+        const pacUrl = getPacUrl(url)
+        if (!pacUrl) {
+            return { error: "Invalid URL" }
+        }
+        try {
+            const { result, error } = await this.request({ type: "evaluate", script, url: pacUrl, host: getPacHost(url) })
+            return { result, error }
+        } catch (error) {
+            return { error: error instanceof Error ? error.message : String(error) }
+        }
+    }
+}
+
+const pacEvaluator = new PacEvaluator()
+export default pacEvaluator
@@ -0,0 +1,189 @@
+/**
+ * JavaScript implementations of the PAC helper functions
+ * Mirrors the behaviour Chrome provides inside FindProxyForURL so rules can be
+ * evaluated outside of the PAC script with identical results
+ */
+
+/**
+ * Shell expression match, `*` matches any sequence and `?` a single character
+ * @param str String to test
+ * @param shexp Shell expression
+ * @returns Whether the whole string matches the expression
+ */
+export function shExpMatch(str: string, shexp: string): boolean {
+    const source = shexp
+        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+        .replace(/\*/g, ".*")
+        .replace(/\?/g, ".")
+    return new RegExp(`^${source}$`).test(str)
+}
+
+/**
+ * Domain suffix match, `dnsDomainIs("www.example.com", ".example.com")` is true
+ * @param host Hostname to test
+ * @param domain Domain suffix, usually starting with a dot
+ * @returns Whether the host ends with the domain
+ */
+export function dnsDomainIs(host: string, domain: string): boolean {
+    return host.length >= domain.length &&
+        host.substring(host.length - domain.length) === domain
+}
+
+const IPV4_LITERAL = /^\d{1,3}(\.\d{1,3}){3}$/
+
+/**
+ * Parse a dotted IPv4 address into an unsigned 32-bit number
+ * @returns The address or null when it is not a valid IPv4 literal
+ */
+export function parseIPv4(address: string): number | null {
+    if (!IPV4_LITERAL.test(address)) {
+        return null
+    }
+    const parts = address.split(".").map(Number)
+    if (parts.some(part => part > 255)) {
+        return null
+    }
+    return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0
+}
+
+/**
+ * Parse an IPv6 address into its eight 16-bit groups
+ * Supports `::` compression and a trailing embedded IPv4 address
+ * @returns The groups or null when it is not a valid IPv6 literal
+ */
+export function parseIPv6(address: string): number[] | null {
+    let text = address.toLowerCase()
+    if (text.startsWith("[") && text.endsWith("]")) {
+        text = text.substring(1, text.length - 1)
+    }
+    if (!text.includes(":")) {
+        return null
+    }
+    const tail: number[] = []
+    const lastColon = text.lastIndexOf(":")
+    const lastPart = text.substring(lastColon + 1)
+    if (lastPart.includes(".")) {
+        const ipv4 = parseIPv4(lastPart)
+        if (ipv4 === null) {
+            return null
+        }
+        tail.push(ipv4 >>> 16, ipv4 & 0xffff)
+        text = text.substring(0, lastColon)
+        // "::1.2.3.4" leaves a single colon behind that belongs to "::"
+        if (text.endsWith(":")) {
+            text += ":"
+        }
+    }
+    const halves = text.split("::")
+    if (halves.length > 2) {
+        return null
+    }
+    const parseGroups = (part: string) =>
+        part === "" ? [] : part.split(":").map(group =>
+            /^[0-9a-f]{1,4}$/.test(group) ? parseInt(group, 16) : NaN
+        )
+    const head = parseGroups(halves[0])
+    const rest = halves.length === 2 ? parseGroups(halves[1]) : []
+    const explicit = head.length + rest.length + tail.length
+    if ([...head, ...rest].some(isNaN)) {
+        return null
+    }
+    if (halves.length === 1) {
+        return explicit === 8 ? [...head, ...tail] : null
+    }
+    if (explicit > 7) {
+        return null
+    }
+    return [...head, ...new Array(8 - explicit).fill(0), ...rest, ...tail]
+}
+
+/**
+ * Check whether an IPv4 literal belongs to a network
+ * Unlike the browser version, hostnames are never resolved and simply don't match
+ * @param host IPv4 address to test
+ * @param pattern Network address, e.g. "10.0.0.0"
+ * @param mask Network mask, e.g. "255.0.0.0"
+ */
+export function isInNet(host: string, pattern: string, mask: string): boolean {
+    const address = parseIPv4(host)
+    const network = parseIPv4(pattern)
+    const netmask = parseIPv4(mask)
+    if (address === null || network === null || netmask === null) {
+        return false
+    }
+    return ((address & netmask) >>> 0) === ((network & netmask) >>> 0)
+}
+
+/**
+ * Check whether an IP literal belongs to a CIDR range, e.g. "fd00::/8"
+ * Chrome's extension of isInNet that also understands IPv6
+ * @param host IPv4 or IPv6 address to test
+ * @param range Network in CIDR notation
+ */
+export function isInNetEx(host: string, range: string): boolean {
+    const [network, prefixText] = range.split("/")
+    const v6Host = parseIPv6(host)
+    const v6Network = parseIPv6(network)
+    if (v6Host && v6Network) {
+        const prefix = prefixText === undefined ? 128 : Number(prefixText)
+        for (let i = 0, bits = prefix; i < 8 && bits > 0; i++, bits -= 16) {
+            const mask = bits >= 16 ? 0xffff : (0xffff << (16 - bits)) & 0xffff
+            if ((v6Host[i] & mask) !== (v6Network[i] & mask)) {
+                return false
+            }
+        }
+        return true
+    }
+    const prefix = prefixText === undefined ? 32 : Number(prefixText)
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0
+    return isInNet(host, network, ipv4ToString(mask))
+}
+
+function ipv4ToString(address: number): string {
+    return [24, 16, 8, 0].map(shift => (address >>> shift) & 255).join(".")
+}
+
+export function isPlainHostName(host: string): boolean {
+    return !host.includes(".")
+}
+
+/**
+ * Exact host match, or a match of the unqualified part against an unqualified host
+ * `localHostOrDomainIs("www", "www.example.com")` is true
+ */
+export function localHostOrDomainIs(host: string, hostdom: string): boolean {
+    return host === hostdom || (!host.includes(".") && hostdom.startsWith(`${host}.`))
+}
+
+export function dnsDomainLevels(host: string): number {
+    return host.split(".").length - 1
+}
+
+/**
+ * All functions a PAC script may call, for running whole scripts outside Chrome
+ * Name resolution isn't available: hostnames never resolve and the local address
+ * is the loopback; time based functions never match
+ */
+export function createPacEnvironment(): Record<string, (...args: never[]) => unknown> {
+    return {
+        shExpMatch,
+        dnsDomainIs,
+        isInNet,
+        isInNetEx,
+        isPlainHostName,
+        localHostOrDomainIs,
+        dnsDomainLevels,
+        isResolvable: (host: string) => parseIPv4(host) !== null,
+        isResolvableEx: (host: string) => parseIPv4(host) !== null || parseIPv6(host) !== null,
+        dnsResolve: (host: string) => (parseIPv4(host) !== null ? host : null),
+        dnsResolveEx: (host: string) => (parseIPv4(host) !== null || parseIPv6(host) !== null ? host : ""),
+        myIpAddress: () => "127.0.0.1",
+        myIpAddressEx: () => "127.0.0.1",
+        sortIpAddressList: (list: string) => list,
+        getClientVersion: () => "1.0",
+        weekdayRange: () => false,
+        dateRange: () => false,
+        timeRange: () => false,
+        alert: (message: unknown) => console.log("PAC alert:", message)
+    }
+}
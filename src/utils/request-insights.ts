@@ -0,0 +1,82 @@
+/**
+ * Aggregations of the failed request history for the options page
+ */
+import type { FailedRequest } from "~types/common"
+
+// Key used in the error breakdown for requests that succeeded too slowly
+export const SLOW_RESPONSE_KEY = "slowResponse"
+
+// Upper bounds of the response time buckets in milliseconds, the last one is open ended
+export const RESPONSE_TIME_BUCKETS = [5000, 10000, 20000, 30000]
+
+export interface InsightCount {
+    key: string
+    count: number
+    lastSeen: number
+}
+
+export interface RequestInsights {
+    total: number
+    hostnames: InsightCount[]
+    errors: InsightCount[]
+    tabSites: InsightCount[]
+    // One count per RESPONSE_TIME_BUCKETS entry plus one for slower responses
+    responseTimes: number[]
+}
+
+function countBy(records: FailedRequest[], getKey: (record: FailedRequest) => string): InsightCount[] {
+    const counts = new Map<string, InsightCount>()
+    for (const record of records) {
+        const key = getKey(record)
+        const entry = counts.get(key) || { key, count: 0, lastSeen: 0 }
+        entry.count++
+        entry.lastSeen = Math.max(entry.lastSeen, record.timestamp)
+        counts.set(key, entry)
+    }
+    return [...counts.values()].sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen)
+}
+
+/**
+ * Summarize history records recorded at or after a time
+ * @param since Timestamp in milliseconds, 0 for all records
+ */
+export function summarizeRequests(records: FailedRequest[], since: number): RequestInsights {
+    const inRange = records.filter(r => r.timestamp >= since)
+    const responseTimes = new Array(RESPONSE_TIME_BUCKETS.length + 1).fill(0)
+    for (const record of inRange) {
+        if (record.responseTime === undefined) {
+            continue
+        }
+        const bucket = RESPONSE_TIME_BUCKETS.findIndex(limit => record.responseTime < limit)
+        responseTimes[bucket === -1 ? RESPONSE_TIME_BUCKETS.length : bucket]++
+    }
+    return {
+        total: inRange.length,
+        hostnames: countBy(inRange, r => r.hostname),
+        errors: countBy(inRange, r => r.error || SLOW_RESPONSE_KEY),
+        tabSites: countBy(inRange, r => r.currentTabHostname),
+        responseTimes
+    }
+}
+
+function csvField(value: string | number | undefined): string {
+    const text = value === undefined ? "" : String(value)
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Export history records as CSV, one row per failure
+ */
+export function exportRequestsAsCsv(records: FailedRequest[]): string {
+    const header = ["time", "hostname", "url", "tabSite", "error", "status", "responseTime"]
+    const rows = records.map(r => [
+        new Date(r.timestamp).toISOString(),
+        r.hostname,
+        r.url,
+        r.currentTabHostname,
+        r.error,
+        r.status,
+        r.responseTime
+    ].map(csvField).join(","))
+    return [header.join(","), ...rows].join("\r\n") + "\r\n"
+}
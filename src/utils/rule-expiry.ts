@@ -0,0 +1,37 @@
+/**
+ * Expiry of temporary rules, e.g. a proxy needed for an hour during an incident
+ */
+import type { ProxyRule } from "~types/common"
+
+// How long a new rule is kept, "today" ends at local midnight
+export type RuleDuration = "forever" | "hour" | "today"
+
+export const RULE_DURATIONS: RuleDuration[] = ["forever", "hour", "today"]
+
+export const RULE_DURATION_LABEL_KEYS: Record<RuleDuration, string> = {
+    forever: "ruleDurationForever",
+    hour: "ruleDurationHour",
+    today: "ruleDurationToday"
+}
+
+/**
+ * Expiry time of a rule added now for the given duration
+ * @returns undefined for permanent rules
+ */
+export function getRuleExpiry(duration: RuleDuration, now = Date.now()): number | undefined {
+    switch (duration) {
+        case "hour":
+            return now + 60 * 60 * 1000
+        case "today": {
+            const midnight = new Date(now)
+            midnight.setHours(24, 0, 0, 0)
+            return midnight.getTime()
+        }
+        default:
+            return undefined
+    }
+}
+
+export function isRuleExpired(rule: ProxyRule, now = Date.now()): boolean {
+    return rule.expiresAt !== undefined && rule.expiresAt <= now
+}
@@ -0,0 +1,408 @@
+/**
+ * Rule matching engine shared by the request monitor and the PAC generator
+ *
+ * Each rule is compiled once into a small condition tree built from PAC primitives.
+ * The tree is rendered into the generated PAC script and evaluated in JavaScript with
+ * the same primitives, so "is this URL in the rules" always agrees with the routing.
+ */
+import type { ProxyRule, ProxyRuleType } from "~types/common"
+import {
+    dnsDomainIs,
+    isInNet,
+    isInNetEx,
+    parseIPv4,
+    parseIPv6,
+    shExpMatch
+} from "~utils/pac-functions"
+
+// Hosts the generated PAC script always sends direct, before any rule is checked
+export const ALWAYS_DIRECT_HOSTS = ["localhost", "127.0.0.1"]
+
+const IPV4_LITERAL_SOURCE = "^\\d{1,3}(\\.\\d{1,3}){3}$"
+
+export type PacCondition =
+    | { type: "hostEquals"; value: string }
+    | { type: "dnsDomainIs"; value: string }
+    | { type: "shExpMatch"; value: string }
+    | { type: "urlRegex"; value: string }
+    | { type: "urlPrefix"; value: string }
+    | { type: "isInNet"; pattern: string; mask: string }
+    | { type: "isInNetEx"; range: string }
+    // Several host and domain rules checked with one lookup per host label
+    | { type: "hostSet"; hosts: string[]; domains: string[] }
+    | { type: "any"; conditions: PacCondition[] }
+
+// A condition that never matches, used for patterns that fail to compile
+const NEVER: PacCondition = { type: "any", conditions: [] }
+
+/**
+ * Hostname as FindProxyForURL receives it: lowercase, IPv6 without brackets
+ * @param url Full URL
+ * @returns Hostname or an empty string for invalid URLs
+ */
+export function getPacHost(url: string): string {
+    try {
+        const hostname = new URL(url).hostname.toLowerCase()
+        if (hostname.startsWith("[") && hostname.endsWith("]")) {
+            return hostname.substring(1, hostname.length - 1)
+        }
+        return hostname
+    } catch {
+        return ""
+    }
+}
+
+/**
+ * URL as FindProxyForURL receives it
+ * Chrome strips credentials and fragments, and reduces https:// URLs to their origin
+ * @param url Full URL
+ * @returns URL passed to the PAC script or an empty string for invalid URLs
+ */
+export function getPacUrl(url: string): string {
+    try {
+        const parsed = new URL(url)
+        if (parsed.protocol === "https:" || parsed.protocol === "wss:") {
+            return `${parsed.protocol}//${parsed.host}/`
+        }
+        parsed.username = ""
+        parsed.password = ""
+        parsed.hash = ""
+        return parsed.href
+    } catch {
+        return ""
+    }
+}
+
+/**
+ * Type of a rule, inferred from the pattern for rules saved before types existed
+ * `*.example.com` and `example.com` are domains, other patterns with `*` or `?` are wildcards
+ */
+export function getRuleType(rule: ProxyRule): ProxyRuleType {
+    if (rule.type) {
+        return rule.type
+    }
+    const pattern = rule.pattern.trim()
+    if (!pattern.startsWith("*.") && (pattern.includes("*") || pattern.includes("?"))) {
+        return "wildcard"
+    }
+    return "domain"
+}
+
+/**
+ * Check that a pattern can be compiled for the given rule type
+ * @returns true when the pattern is valid
+ */
+export function isValidRulePattern(type: ProxyRuleType, pattern: string): boolean {
+    const value = pattern.trim()
+    if (!value) {
+        return false
+    }
+    switch (type) {
+        case "regex":
+            try {
+                new RegExp(value)
+                return true
+            } catch {
+                return false
+            }
+        case "url_prefix":
+            return /^[a-z][a-z0-9+.-]*:\/\//i.test(value)
+        case "cidr":
+            return parseCidr(value) !== null
+        default:
+            return !/[\s/]/.test(value)
+    }
+}
+
+/**
+ * Split a CIDR range into address and prefix length, a bare address is a single host
+ */
+function parseCidr(value: string): { address: string; prefix: number; ipv6: boolean } | null {
+    const [address, prefixText, ...rest] = value.split("/")
+    if (rest.length > 0) {
+        return null
+    }
+    const ipv6 = parseIPv6(address) !== null
+    if (!ipv6 && parseIPv4(address) === null) {
+        return null
+    }
+    const maxPrefix = ipv6 ? 128 : 32
+    const prefix = prefixText === undefined ? maxPrefix : Number(prefixText)
+    if (!/^\d+$/.test(prefixText ?? "0") || prefix > maxPrefix) {
+        return null
+    }
+    return { address: address.replace(/^\[|\]$/g, "").toLowerCase(), prefix, ipv6 }
+}
+
+function prefixToMask(prefix: number): string {
+    const mask = prefix === 0 ? 0 : (0xffffffff << (32 - prefix)) >>> 0
+    return [24, 16, 8, 0].map(shift => (mask >>> shift) & 255).join(".")
+}
+
+/**
+ * Compile a rule into a condition tree according to its type
+ * Host based types compare lowercase hostnames, URL based types keep the pattern's case
+ */
+export function compileRule(rule: ProxyRule): PacCondition {
+    const pattern = rule.pattern.trim()
+    const type = getRuleType(rule)
+    if (!isValidRulePattern(type, pattern)) {
+        return NEVER
+    }
+    switch (type) {
+        case "host":
+            return { type: "hostEquals", value: pattern.toLowerCase() }
+        case "domain":
+            return domainCondition(ruleDomain(pattern))
+        case "wildcard":
+            return { type: "shExpMatch", value: pattern.toLowerCase() }
+        case "regex":
+            return { type: "urlRegex", value: pattern }
+        case "url_prefix":
+            return { type: "urlPrefix", value: pattern }
+        case "cidr": {
+            const cidr = parseCidr(pattern)
+            return cidr.ipv6
+                ? { type: "isInNetEx", range: `${cidr.address}/${cidr.prefix}` }
+                : { type: "isInNet", pattern: cidr.address, mask: prefixToMask(cidr.prefix) }
+        }
+    }
+}
+
+// `*.example.com`, `.example.com` and `example.com` all stand for example.com and its subdomains
+function ruleDomain(pattern: string): string {
+    return pattern.trim().toLowerCase().replace(/^\*?\./, "")
+}
+
+function domainCondition(domain: string): PacCondition {
+    return {
+        type: "any",
+        conditions: [
+            { type: "hostEquals", value: domain },
+            { type: "dnsDomainIs", value: `.${domain}` }
+        ]
+    }
+}
+
+/**
+ * Compile rules that lead to the same outcome into one condition
+ * Host and domain rules are merged into a hostSet, regular expressions into one
+ * alternation, so long lists cost a few lookups instead of one check per rule.
+ * Only use it for rules with the same outcome: the order between them is lost.
+ */
+export function compileRuleGroup(rules: ProxyRule[]): PacCondition {
+    const hosts: string[] = []
+    const domains: string[] = []
+    const regexes: string[] = []
+    const conditions: PacCondition[] = []
+    for (const rule of rules) {
+        const condition = compileRule(rule)
+        const type = getRuleType(rule)
+        if (condition === NEVER) {
+            continue
+        }
+        if (type === "host" && condition.type === "hostEquals") {
+            hosts.push(condition.value)
+        } else if (type === "domain") {
+            domains.push(ruleDomain(rule.pattern))
+        } else if (condition.type === "urlRegex" && !/\\[1-9k]/.test(condition.value)) {
+            // Back references would point at the wrong group once merged
+            regexes.push(condition.value)
+        } else {
+            conditions.push(condition)
+        }
+    }
+    if (hosts.length + domains.length > 1) {
+        conditions.unshift({ type: "hostSet", hosts, domains })
+    } else {
+        conditions.unshift(
+            ...hosts.map(value => ({ type: "hostEquals", value }) as PacCondition),
+            ...domains.map(domainCondition)
+        )
+    }
+    if (regexes.length > 0) {
+        conditions.push({
+            type: "urlRegex",
+            value: regexes.length === 1 ? regexes[0] : regexes.map(r => `(?:${r})`).join("|")
+        })
+    }
+    return conditions.length === 1 ? conditions[0] : { type: "any", conditions }
+}
+
+/**
+ * Values a rendered PAC script declares once, outside FindProxyForURL
+ * Large lookup tables and regular expressions are built once instead of on every request
+ */
+export interface PacDeclarations {
+    statements: string[]
+}
+
+// Looks up the host, then each parent domain, in a table built by renderPacCondition
+const MATCH_HOST_SET_FUNCTION = `function matchHostSet(host, set) {
+    if (Object.prototype.hasOwnProperty.call(set, host)) { return true; }
+    for (var i = host.indexOf("."); i !== -1; i = host.indexOf(".", i + 1)) {
+        if (set[host.substring(i + 1)] === 2) { return true; }
+    }
+    return false;
+}`
+
+export function createPacDeclarations(): PacDeclarations {
+    return { statements: [] }
+}
+
+function declare(declarations: PacDeclarations, prefix: string, value: string): string {
+    if (prefix === "HOST_SET" && !declarations.statements.includes(MATCH_HOST_SET_FUNCTION)) {
+        declarations.statements.push(MATCH_HOST_SET_FUNCTION)
+    }
+    const name = `${prefix}_${declarations.statements.length}`
+    declarations.statements.push(`var ${name} = ${value};`)
+    return name
+}
+
+function renderHostSetTable(condition: { hosts: string[]; domains: string[] }): string {
+    const table: Record<string, number> = {}
+    condition.hosts.forEach(host => { table[host] = 1 })
+    // Domains match the host itself too, so they win over a host entry
+    condition.domains.forEach(domain => { table[domain] = 2 })
+    return JSON.stringify(table)
+}
+
+/**
+ * Render a condition tree as a PAC expression
+ * Network conditions only apply to IP literal hosts so the PAC script never
+ * resolves hostnames, which the JavaScript evaluation could not reproduce
+ * @param declarations When given, host sets and regular expressions are hoisted into it
+ */
+export function renderPacCondition(condition: PacCondition, declarations?: PacDeclarations): string {
+    switch (condition.type) {
+        case "hostEquals":
+            return `host === ${JSON.stringify(condition.value)}`
+        case "dnsDomainIs":
+            return `dnsDomainIs(host, ${JSON.stringify(condition.value)})`
+        case "shExpMatch":
+            return `shExpMatch(host, ${JSON.stringify(condition.value)})`
+        case "urlRegex":
+            if (declarations) {
+                return `${declare(declarations, "URL_REGEX", `new RegExp(${JSON.stringify(condition.value)})`)}.test(url)`
+            }
+            return `new RegExp(${JSON.stringify(condition.value)}).test(url)`
+        case "urlPrefix":
+            return `url.substring(0, ${condition.value.length}) === ${JSON.stringify(condition.value)}`
+        case "isInNet":
+            return `(/${IPV4_LITERAL_SOURCE}/.test(host) && isInNet(host, ${JSON.stringify(condition.pattern)}, ${JSON.stringify(condition.mask)}))`
+        case "isInNetEx":
+            return `(host.indexOf(":") !== -1 && isInNetEx(host, ${JSON.stringify(condition.range)}))`
+        case "hostSet": {
+            const table = renderHostSetTable(condition)
+            if (declarations) {
+                return `matchHostSet(host, ${declare(declarations, "HOST_SET", table)})`
+            }
+            return `(${[
+                ...condition.hosts.map(host => `host === ${JSON.stringify(host)}`),
+                ...condition.domains.map(domain => renderPacCondition(domainCondition(domain)))
+            ].join(" || ") || "false"})`
+        }
+        case "any":
+            if (condition.conditions.length === 0) {
+                return "false"
+            }
+            return `(${condition.conditions.map(c => renderPacCondition(c, declarations)).join(" || ")})`
+    }
+}
+
+/**
+ * Evaluate a condition tree the way the PAC script would
+ * @param url URL as returned by getPacUrl
+ * @param host Hostname as returned by getPacHost
+ */
+export function evaluateCondition(condition: PacCondition, url: string, host: string): boolean {
+    switch (condition.type) {
+        case "hostEquals":
+            return host === condition.value
+        case "dnsDomainIs":
+            return dnsDomainIs(host, condition.value)
+        case "shExpMatch":
+            return shExpMatch(host, condition.value)
+        case "urlRegex":
+            return getRegExp(condition.value).test(url)
+        case "urlPrefix":
+            return url.substring(0, condition.value.length) === condition.value
+        case "isInNet":
+            return new RegExp(IPV4_LITERAL_SOURCE).test(host) &&
+                isInNet(host, condition.pattern, condition.mask)
+        case "isInNetEx":
+            return host.includes(":") && isInNetEx(host, condition.range)
+        case "hostSet":
+            return condition.hosts.includes(host) ||
+                condition.domains.some(domain => evaluateCondition(domainCondition(domain), url, host))
+        case "any":
+            return condition.conditions.some(c => evaluateCondition(c, url, host))
+    }
+}
+
+export function isBypassRule(rule: ProxyRule): boolean {
+    return rule.action === "bypass"
+}
+
+/**
+ * Order rules the way they are evaluated: bypass rules first, then proxy rules,
+ * each group keeping its list order
+ */
+export function orderRulesForEvaluation(rules: ProxyRule[]): ProxyRule[] {
+    return [
+        ...rules.filter(isBypassRule),
+        ...rules.filter(rule => !isBypassRule(rule))
+    ]
+}
+
+export function ruleToPacCondition(rule: ProxyRule): string {
+    return renderPacCondition(compileRule(rule))
+}
+
+// Compiled conditions by rule type and pattern, so subscribed lists aren't recompiled on every request
+const compiledRules: Map<string, PacCondition> = new Map()
+const regExps: Map<string, RegExp> = new Map()
+const COMPILED_RULES_LIMIT = 50000
+
+function getRegExp(source: string): RegExp {
+    let regExp = regExps.get(source)
+    if (!regExp) {
+        if (regExps.size >= COMPILED_RULES_LIMIT) {
+            regExps.clear()
+        }
+        regExp = new RegExp(source)
+        regExps.set(source, regExp)
+    }
+    return regExp
+}
+
+function compileRuleCached(rule: ProxyRule): PacCondition {
+    const key = `${getRuleType(rule)} ${rule.pattern}`
+    let condition = compiledRules.get(key)
+    if (!condition) {
+        if (compiledRules.size >= COMPILED_RULES_LIMIT) {
+            compiledRules.clear()
+        }
+        condition = compileRule(rule)
+        compiledRules.set(key, condition)
+    }
+    return condition
+}
+
+export function ruleMatchesUrl(rule: ProxyRule, url: string): boolean {
+    return findMatchingRule([rule], url) !== undefined
+}
+
+/**
+ * Find the first rule matching a URL, in the same order the PAC script checks them
+ * A bypass rule is returned when it matches, even if a proxy rule matches too
+ * @returns The matching rule or undefined
+ */
+export function findMatchingRule(rules: ProxyRule[], url: string): ProxyRule | undefined {
+    const host = getPacHost(url)
+    if (!host || ALWAYS_DIRECT_HOSTS.includes(host)) {
+        return undefined
+    }
+    const pacUrl = getPacUrl(url)
+    return orderRulesForEvaluation(rules).find(rule => evaluateCondition(compileRuleCached(rule), pacUrl, host))
+}
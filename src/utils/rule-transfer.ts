@@ -0,0 +1,187 @@
+/**
+ * Proxy rule import / export
+ *
+ * Two formats are supported:
+ * - JSON: the stored rules with ids, types, actions, profile ids and expiry
+ * - Text: one pattern per line, `#` comments, bypass rules prefixed with `@@`,
+ *   regular expressions wrapped in `/.../`; other types are inferred on import
+ * AutoProxy lists (GFWList) are accepted on import too, see autoproxy.ts
+ */
+import type { ProxyRule, ProxyRuleType, RuleSubscriptionFormat } from "~types/common"
+import { PROXY_RULE_TYPES } from "~types/common"
+import { isAutoProxyList, parseAutoProxyList } from "~utils/autoproxy"
+import { isRuleExpired } from "~utils/rule-expiry"
+import { getRuleType, isValidRulePattern } from "~utils/rule-matcher"
+import { generateId } from "~utils/util"
+
+export type RuleTransferFormat = "json" | "text" | "autoproxy"
+
+// Version of the JSON export, bumped when the layout changes
+const RULES_EXPORT_VERSION = 1
+const BYPASS_PREFIX = "@@"
+
+export interface RulesExport {
+    version: number
+    exportedAt: string
+    rules: ProxyRule[]
+}
+
+export interface ParsedRules {
+    rules: ProxyRule[]
+    // Entries that could not be turned into a rule
+    invalid: string[]
+}
+
+export function exportRulesAsJson(rules: ProxyRule[]): string {
+    const data: RulesExport = {
+        version: RULES_EXPORT_VERSION,
+        exportedAt: new Date().toISOString(),
+        rules
+    }
+    return JSON.stringify(data, null, 2)
+}
+
+function ruleToLine(rule: ProxyRule): string {
+    const pattern = getRuleType(rule) === "regex" ? `/${rule.pattern}/` : rule.pattern
+    return rule.action === "bypass" ? `${BYPASS_PREFIX}${pattern}` : pattern
+}
+
+/**
+ * Guess the type of a pattern read from a text list
+ * Returns undefined for host patterns, whose type getRuleType infers
+ */
+function inferTextRuleType(pattern: string): ProxyRuleType | undefined {
+    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(pattern)) {
+        return "url_prefix"
+    }
+    if (isValidRulePattern("cidr", pattern) && pattern.includes("/")) {
+        return "cidr"
+    }
+    return undefined
+}
+
+export function exportRulesAsText(rules: ProxyRule[]): string {
+    const lines = [
+        "# Proxy Switch Craft rules",
+        `# Exported at ${new Date().toISOString()}`,
+        `# Lines starting with ${BYPASS_PREFIX} are bypass rules, /.../ are regular expressions`,
+        ...rules.map(ruleToLine)
+    ]
+    return lines.join("\n") + "\n"
+}
+
+/**
+ * Parse a JSON export, a bare array of rules is accepted too
+ * Rules keep their ids, type, action, origin and times, unknown fields are dropped
+ * Temporary rules that expired since the export are left out
+ * @throws Error when the text is not a rules export
+ */
+export function parseRulesJson(text: string): ParsedRules {
+    const data = JSON.parse(text)
+    const entries: unknown = Array.isArray(data) ? data : data?.rules
+    if (!Array.isArray(entries)) {
+        throw new Error("No rules found in file")
+    }
+    const result: ParsedRules = { rules: [], invalid: [] }
+    for (const entry of entries) {
+        const pattern = typeof entry?.pattern === "string" ? entry.pattern.trim() : ""
+        const rule: ProxyRule = {
+            id: typeof entry?.id === "string" && entry.id ? entry.id : generateId(),
+            pattern
+        }
+        if (PROXY_RULE_TYPES.includes(entry?.type)) {
+            rule.type = entry.type
+        }
+        if (entry?.action === "bypass") {
+            rule.action = "bypass"
+        }
+        if (rule.action !== "bypass" && typeof entry?.proxyProfileId === "string" && entry.proxyProfileId) {
+            rule.proxyProfileId = entry.proxyProfileId
+        }
+        if (entry?.origin === "auto") {
+            rule.origin = entry.origin
+        }
+        if (Number.isFinite(entry?.createdAt)) {
+            rule.createdAt = entry.createdAt
+        }
+        if (Number.isFinite(entry?.expiresAt)) {
+            rule.expiresAt = entry.expiresAt
+            if (isRuleExpired(rule)) {
+                continue
+            }
+        }
+        if (!isValidRulePattern(getRuleType(rule), pattern)) {
+            result.invalid.push(pattern || JSON.stringify(entry))
+            continue
+        }
+        result.rules.push(rule)
+    }
+    return result
+}
+
+/**
+ * Parse a text list, the rule type is inferred from each pattern
+ */
+export function parseRulesText(text: string): ParsedRules {
+    const result: ParsedRules = { rules: [], invalid: [] }
+    for (const line of text.split(/\r?\n/)) {
+        let pattern = line.trim()
+        if (!pattern || pattern.startsWith("#")) {
+            continue
+        }
+        const bypass = pattern.startsWith(BYPASS_PREFIX)
+        if (bypass) {
+            pattern = pattern.substring(BYPASS_PREFIX.length).trim()
+        }
+        const rule: ProxyRule = { id: generateId(), pattern }
+        if (pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")) {
+            rule.pattern = pattern.substring(1, pattern.length - 1)
+            rule.type = "regex"
+        } else {
+            const type = inferTextRuleType(pattern)
+            if (type) {
+                rule.type = type
+            }
+        }
+        if (bypass) {
+            rule.action = "bypass"
+        }
+        if (!isValidRulePattern(getRuleType(rule), rule.pattern)) {
+            result.invalid.push(line.trim())
+            continue
+        }
+        result.rules.push(rule)
+    }
+    return result
+}
+
+/**
+ * Parse an import file, the format is detected from the content rather than the file name
+ */
+export function parseRulesFile(text: string): ParsedRules & { format: RuleTransferFormat } {
+    if (isAutoProxyList(text)) {
+        return { ...parseRulesAs(text, "autoproxy"), format: "autoproxy" }
+    }
+    const trimmed = text.trim()
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+        return { ...parseRulesJson(trimmed), format: "json" }
+    }
+    return { ...parseRulesText(text), format: "text" }
+}
+
+/**
+ * Parse a list whose format is known up front, as for subscriptions
+ * @throws Error when a JSON list can't be parsed
+ */
+export function parseRulesAs(text: string, format: RuleSubscriptionFormat): ParsedRules {
+    switch (format) {
+        case "json":
+            return parseRulesJson(text)
+        case "autoproxy": {
+            const { rules, issues } = parseAutoProxyList(text)
+            return { rules, invalid: issues.map(issue => `${issue.line}: ${issue.entry}`) }
+        }
+        default:
+            return parseRulesText(text)
+    }
+}
@@ -13,11 +13,84 @@ export const syncStorage = new Storage({
     area: "sync"
 })
 
+// Cleared when the browser closes, survives service worker restarts
+export const sessionStorage = new Storage({
+    area: "session"
+})
+
 // Use local storage in development, sync storage in production
 const storage = isDevelopment ? localStorage : syncStorage
 
 console.log(`Storage mode: ${isDevelopment ? 'LOCAL (development)' : 'SYNC (production)'}`)
 
+// Each key stores up to 100 rules
+const RULES_PER_KEY = 100
+export const MAX_PROXY_RULES = PROXY_RULES_CHUNK_COUNT * RULES_PER_KEY
+
+/**
+ * Thrown before saving rules that storage can't hold, nothing is written then
+ * count: more rules than the chunks hold
+ * itemBytes: one chunk is larger than sync storage keeps per key
+ * totalBytes: all chunks together are larger than sync storage keeps
+ */
+export class RuleStorageLimitError extends Error {
+    constructor(
+        readonly limit: 'count' | 'itemBytes' | 'totalBytes',
+        readonly size: number,
+        readonly max: number
+    ) {
+        super(`Proxy rules exceed the ${limit} limit of storage: ${size} > ${max}`)
+        this.name = 'RuleStorageLimitError'
+    }
+}
+
+const chunkKey = (index: number) => `${STORAGE_KEYS.PROXY_RULES}_${index}`
+
+function splitIntoChunks(rules: ProxyRule[]): Record<string, ProxyRule[]> {
+    const chunks: Record<string, ProxyRule[]> = {}
+    for (let i = 0; i * RULES_PER_KEY < rules.length; i++) {
+        chunks[chunkKey(i)] = rules.slice(i * RULES_PER_KEY, (i + 1) * RULES_PER_KEY)
+    }
+    return chunks
+}
+
+// Size sync storage counts for an item, Plasmo stores the value as a JSON string
+const itemBytes = (key: string, value: unknown) =>
+    new TextEncoder().encode(key + JSON.stringify(JSON.stringify(value))).length
+
+/**
+ * Check that rules fit into storage before saving them
+ * Sync storage limits the size of every key and of all keys together,
+ * the space other settings use counts against the total
+ * @throws {RuleStorageLimitError} When the rules don't fit
+ */
+export async function checkProxyRulesCapacity(rules: ProxyRule[]): Promise<void> {
+    if (rules.length > MAX_PROXY_RULES) {
+        throw new RuleStorageLimitError('count', rules.length, MAX_PROXY_RULES)
+    }
+    if (isDevelopment) {
+        return
+    }
+    const { QUOTA_BYTES, QUOTA_BYTES_PER_ITEM } = chrome.storage.sync
+    let bytes = 0
+    for (const [key, chunk] of Object.entries(splitIntoChunks(rules))) {
+        const size = itemBytes(key, chunk)
+        if (size > QUOTA_BYTES_PER_ITEM) {
+            throw new RuleStorageLimitError('itemBytes', size, QUOTA_BYTES_PER_ITEM)
+        }
+        bytes += size
+    }
+    const chunkKeys = Array.from({ length: PROXY_RULES_CHUNK_COUNT }, (_, i) => chunkKey(i))
+    const [bytesInUse, ruleBytesInUse] = await Promise.all([
+        chrome.storage.sync.getBytesInUse(),
+        chrome.storage.sync.getBytesInUse([STORAGE_KEYS.PROXY_RULES, ...chunkKeys])
+    ])
+    const available = QUOTA_BYTES - (bytesInUse - ruleBytesInUse)
+    if (bytes > available) {
+        throw new RuleStorageLimitError('totalBytes', bytes, available)
+    }
+}
+
 /**
  * Get proxy rules from Chrome sync storage
  * Reads from multiple keys (PROXY_RULES_0 to PROXY_RULES_19) and merges them
@@ -69,42 +142,31 @@ export async function getProxyRules(): Promise<ProxyRule[]> {
  * Stores rules sequentially with 100 rules per key
  * This approach avoids Chrome's single key storage limit (8KB per key in sync storage)
  * 
+ * All chunks are written in one call, so a failed write keeps the previous rules.
+ * When fewer chunks are needed than before, the first unused one is emptied in the
+ * same call, readers stop there even if removing the leftovers fails
+ * 
  * @param {ProxyRule[]} rules - Array of proxy rules to store
  * @returns {Promise<void>}
+ * @throws {RuleStorageLimitError} When the rules don't fit, nothing is written then
  */
 export async function saveProxyRules(rules: ProxyRule[]): Promise<void> {
     try {
-        const RULES_PER_KEY = 100 // Each key stores up to 100 rules
-        const totalKeys = Math.ceil(rules.length / RULES_PER_KEY)
-        if (totalKeys > PROXY_RULES_CHUNK_COUNT) {
-            console.warn(`⚠️ Warning: Attempting to store ${rules.length} rules which exceeds the maximum supported ${PROXY_RULES_CHUNK_COUNT * RULES_PER_KEY} rules. Excess rules will be ignored.`)
-            return
-        }
-        // Only write keys that have data
-        for (let i = 0; i < totalKeys; i++) {
-            const start = i * RULES_PER_KEY
-            const end = start + RULES_PER_KEY
-            const chunk = rules.slice(start, end)
-            const key = `${STORAGE_KEYS.PROXY_RULES}_${i}`
-
-            await storage.set(key, chunk)
+        await checkProxyRulesCapacity(rules)
+        const chunks = splitIntoChunks(rules)
+        const totalKeys = Object.keys(chunks).length
+
+        // Find chunks left over from a longer list (if rules were deleted)
+        const unusedKeys = Array.from({ length: PROXY_RULES_CHUNK_COUNT - totalKeys }, (_, i) => chunkKey(totalKeys + i))
+        const existing = unusedKeys.length > 0 ? await storage.getMany(unusedKeys) : {}
+        const staleKeys = unusedKeys.filter(key => existing[key] !== null && existing[key] !== undefined)
+        if (staleKeys.length > 0) {
+            chunks[unusedKeys[0]] = []
         }
 
-        // Clear unused keys (if rules were deleted)
-        // For example, if we previously had 10 keys but now only need 3
-        if (totalKeys < PROXY_RULES_CHUNK_COUNT) {
-            for (let i = totalKeys; i < PROXY_RULES_CHUNK_COUNT; i++) {
-                const key = `${STORAGE_KEYS.PROXY_RULES}_${i}`
-
-                // Check if key exists before removing
-                const existingData = await storage.get(key)
-                if (existingData === null || existingData === undefined) {
-                    // Key doesn't exist, no need to check remaining keys
-                    break
-                }
-
-                await storage.remove(key)
-            }
+        await storage.setMany(chunks)
+        if (staleKeys.length > 0) {
+            await storage.removeMany([...new Set([unusedKeys[0], ...staleKeys])])
         }
 
         console.log(`Saved ${rules.length} proxy rules to ${totalKeys} key(s) (${RULES_PER_KEY} rules per key)`)
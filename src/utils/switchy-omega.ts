@@ -0,0 +1,478 @@
+/**
+ * SwitchyOmega backup importer
+ *
+ * Reads the OmegaOptions JSON found in `.bak` / `.json` exports and maps its
+ * profiles onto proxy profiles and proxy rules:
+ * - FixedProfile servers become proxy profiles, their bypass lists bypass rules
+ * - SwitchProfile and RuleListProfile (Switchy and AutoProxy formats) rules become proxy or bypass rules
+ * Anything without an equivalent is reported as an issue instead of being dropped, so are
+ * rules that route differently here because bypass rules are checked before proxy rules
+ * while SwitchyOmega takes the first matching rule.
+ */
+import type { ProxyProfile, ProxyRule, ProxyRuleType } from "~types/common"
+import { PROXY_SCHEMES } from "~types/common"
+import { parseAutoProxyEntries } from "~utils/autoproxy"
+import { isBypassRule, isValidRulePattern, ruleMatchesUrl } from "~utils/rule-matcher"
+import { generateId } from "~utils/util"
+
+export type SwitchyOmegaIssueReason =
+    | "unsupportedProfileType"
+    | "unsupportedCondition"
+    | "unsupportedScheme"
+    | "unsupportedRuleListFormat"
+    | "unknownTargetProfile"
+    | "invalidPattern"
+    | "perProtocolProxies"
+    | "defaultProfileCatchAll"
+    | "bypassCheckedFirst"
+    | "shadowedByCatchAll"
+
+export interface SwitchyOmegaImportIssue {
+    profileName: string
+    entry: string
+    reason: SwitchyOmegaIssueReason
+    // The earlier rule or catch-all profile that now routes differently
+    conflictsWith?: string
+}
+
+export interface SwitchyOmegaImportResult {
+    proxyProfiles: ProxyProfile[]
+    proxyRules: ProxyRule[]
+    issues: SwitchyOmegaImportIssue[]
+}
+
+interface OmegaProxy {
+    scheme?: string
+    host?: string
+    port?: number
+}
+
+interface OmegaCondition {
+    conditionType: string
+    pattern?: string
+    ip?: string
+    prefixLength?: number
+}
+
+interface OmegaProfile {
+    name: string
+    profileType: string
+    fallbackProxy?: OmegaProxy
+    proxyForHttp?: OmegaProxy
+    proxyForHttps?: OmegaProxy
+    proxyForFtp?: OmegaProxy
+    bypassList?: OmegaCondition[]
+    auth?: Record<string, { username?: string; password?: string }>
+    rules?: { condition: OmegaCondition; profileName: string }[]
+    defaultProfileName?: string
+    format?: string
+    ruleList?: string
+    matchProfileName?: string
+}
+
+interface ConvertedPattern {
+    pattern: string
+    type: ProxyRuleType
+}
+
+// Built-in profile names that mean "connect directly"
+const DIRECT_PROFILE_NAMES = ["direct", "system"]
+
+// Entries every FixedProfile carries by default, already sent direct by the PAC script
+const DEFAULT_BYPASS_PATTERNS = ["<local>", "127.0.0.1", "[::1]", "::1", "localhost"]
+
+/**
+ * Where rules of a SwitchyOmega profile should go
+ * proxyProfileId is undefined for direct targets
+ */
+interface RuleTarget {
+    bypass: boolean
+    proxyProfileId?: string
+}
+
+/**
+ * Parse a SwitchyOmega backup
+ * @param text Content of an OmegaOptions `.bak` or `.json` export
+ * @returns Profiles, rules and issues of the conversion
+ * @throws Error when the text is not a SwitchyOmega backup
+ */
+export function parseSwitchyOmegaBackup(text: string): SwitchyOmegaImportResult {
+    let options: Record<string, unknown>
+    try {
+        options = JSON.parse(text)
+    } catch {
+        throw new Error("Not a valid JSON file")
+    }
+    if (!options || typeof options !== "object" || Array.isArray(options)) {
+        throw new Error("Not a SwitchyOmega backup")
+    }
+
+    const omegaProfiles = Object.keys(options)
+        .filter(key => key.startsWith("+"))
+        .map(key => options[key] as OmegaProfile)
+        .filter(profile => profile && typeof profile === "object" && profile.profileType)
+    if (omegaProfiles.length === 0) {
+        throw new Error("Not a SwitchyOmega backup")
+    }
+
+    const result: SwitchyOmegaImportResult = { proxyProfiles: [], proxyRules: [], issues: [] }
+    // Where each converted rule came from, to describe conflicts between rules
+    const ruleSources = new Map<ProxyRule, { profileName: string; entry: string }>()
+    const profilesByName = new Map(omegaProfiles.map(profile => [profile.name, profile]))
+    const proxyProfileIds = new Map<string, string>()
+
+    for (const omegaProfile of omegaProfiles) {
+        if (omegaProfile.profileType === "FixedProfile") {
+            const proxyProfile = convertFixedProfile(omegaProfile, result.issues)
+            if (proxyProfile) {
+                result.proxyProfiles.push(proxyProfile)
+                proxyProfileIds.set(omegaProfile.name, proxyProfile.id)
+            }
+        }
+    }
+
+    /**
+     * Resolve a profile name to where its traffic ends up
+     * Virtual profiles are followed to the profile they point at
+     */
+    const resolveTarget = (name: string, seen: Set<string> = new Set()): RuleTarget | null => {
+        if (DIRECT_PROFILE_NAMES.includes(name)) {
+            return { bypass: true }
+        }
+        if (proxyProfileIds.has(name)) {
+            return { bypass: false, proxyProfileId: proxyProfileIds.get(name) }
+        }
+        const profile = profilesByName.get(name)
+        if (profile?.profileType === "VirtualProfile" && profile.defaultProfileName && !seen.has(name)) {
+            seen.add(name)
+            return resolveTarget(profile.defaultProfileName, seen)
+        }
+        return null
+    }
+
+    const addRule = (
+        profileName: string,
+        entry: string,
+        rule: ConvertedPattern | null,
+        target: RuleTarget | null,
+        reason: SwitchyOmegaIssueReason = "unsupportedCondition"
+    ) => {
+        if (!target) {
+            result.issues.push({ profileName, entry, reason: "unknownTargetProfile" })
+            return
+        }
+        if (!rule) {
+            result.issues.push({ profileName, entry, reason })
+            return
+        }
+        if (!isValidRulePattern(rule.type, rule.pattern)) {
+            result.issues.push({ profileName, entry, reason: "invalidPattern" })
+            return
+        }
+        const proxyRule: ProxyRule = {
+            id: generateId(),
+            ...rule,
+            ...(target.bypass
+                ? { action: "bypass" as const }
+                : { proxyProfileId: target.proxyProfileId })
+        }
+        result.proxyRules.push(proxyRule)
+        ruleSources.set(proxyRule, { profileName, entry })
+    }
+
+    for (const omegaProfile of omegaProfiles) {
+        switch (omegaProfile.profileType) {
+            case "FixedProfile":
+                for (const condition of omegaProfile.bypassList || []) {
+                    if (DEFAULT_BYPASS_PATTERNS.includes(condition.pattern)) {
+                        continue
+                    }
+                    addRule(omegaProfile.name, describeCondition(condition), convertCondition(condition), { bypass: true })
+                }
+                break
+            case "SwitchProfile": {
+                const firstRule = result.proxyRules.length
+                for (const rule of omegaProfile.rules || []) {
+                    addRule(
+                        omegaProfile.name,
+                        describeCondition(rule.condition),
+                        convertCondition(rule.condition),
+                        resolveTarget(rule.profileName)
+                    )
+                }
+                result.issues.push(...findBypassOrderConflicts(result.proxyRules.slice(firstRule), ruleSources))
+                if (omegaProfile.defaultProfileName) {
+                    const target = resolveTarget(omegaProfile.defaultProfileName)
+                    if (target && !target.bypass) {
+                        // Everything else goes through the proxy: a catch-all wildcard, still overridden by bypass rules
+                        addRule(omegaProfile.name, omegaProfile.defaultProfileName, { pattern: "*", type: "wildcard" }, target)
+                        result.issues.push({
+                            profileName: omegaProfile.name,
+                            entry: omegaProfile.defaultProfileName,
+                            reason: "defaultProfileCatchAll"
+                        })
+                    }
+                }
+                break
+            }
+            case "RuleListProfile": {
+                const matchTarget = resolveTarget(omegaProfile.matchProfileName || "")
+                const lines = (omegaProfile.ruleList || "").split(/\r?\n/)
+                const exclusionTarget = resolveTarget(omegaProfile.defaultProfileName || "direct")
+                const format = (omegaProfile.format || "").toLowerCase()
+                if (format === "switchy") {
+                    for (const line of parseSwitchyRuleList(lines)) {
+                        addRule(omegaProfile.name, line.text, line.rule, line.exclusion ? exclusionTarget : matchTarget)
+                    }
+                } else if (format === "autoproxy") {
+                    const { entries, issues } = parseAutoProxyEntries(omegaProfile.ruleList || "")
+                    for (const entry of entries) {
+                        addRule(
+                            omegaProfile.name,
+                            entry.text,
+                            { pattern: entry.pattern, type: entry.type },
+                            entry.exclusion ? exclusionTarget : matchTarget
+                        )
+                    }
+                    for (const issue of issues) {
+                        addRule(
+                            omegaProfile.name,
+                            issue.entry,
+                            null,
+                            matchTarget,
+                            issue.reason === "invalidPattern" ? "invalidPattern" : "unsupportedCondition"
+                        )
+                    }
+                } else if (omegaProfile.ruleList?.trim()) {
+                    result.issues.push({
+                        profileName: omegaProfile.name,
+                        entry: omegaProfile.format || "",
+                        reason: "unsupportedRuleListFormat"
+                    })
+                }
+                break
+            }
+            case "VirtualProfile":
+            case "DirectProfile":
+            case "SystemProfile":
+                break
+            default:
+                result.issues.push({
+                    profileName: omegaProfile.name,
+                    entry: omegaProfile.profileType,
+                    reason: "unsupportedProfileType"
+                })
+        }
+    }
+
+    result.issues.push(...findRulesAfterCatchAll(result.proxyRules, ruleSources))
+    return result
+}
+
+/**
+ * URLs a rule matches, to test other rules against
+ * Regular expressions have no sample, conflicts with them can't be found
+ */
+function sampleUrls(rule: ProxyRule): string[] {
+    const pattern = rule.pattern
+    switch (rule.type) {
+        case "host":
+            return [`http://${pattern}/`]
+        case "domain": {
+            const domain = pattern.replace(/^\*\./, "")
+            return [`http://${domain}/`, `http://www.${domain}/`]
+        }
+        case "wildcard":
+            return [`http://${pattern.replace(/[*?]/g, "a")}/`]
+        case "cidr": {
+            const ip = pattern.split("/")[0]
+            return [ip.includes(":") ? `http://[${ip}]/` : `http://${ip}/`]
+        }
+        case "url_prefix":
+            return [pattern]
+        default:
+            return []
+    }
+}
+
+/**
+ * Find bypass rules of a SwitchProfile that follow a proxy rule matching the same URLs
+ * SwitchyOmega uses the earlier proxy rule for those URLs, here the bypass rule wins
+ */
+function findBypassOrderConflicts(
+    rules: ProxyRule[],
+    ruleSources: Map<ProxyRule, { profileName: string; entry: string }>
+): SwitchyOmegaImportIssue[] {
+    const issues: SwitchyOmegaImportIssue[] = []
+    rules.forEach((rule, index) => {
+        if (!isBypassRule(rule)) {
+            return
+        }
+        const earlier = rules.slice(0, index).find(other =>
+            !isBypassRule(other) &&
+            (sampleUrls(rule).some(url => ruleMatchesUrl(other, url)) ||
+                sampleUrls(other).some(url => ruleMatchesUrl(rule, url)))
+        )
+        if (earlier) {
+            issues.push({
+                ...ruleSources.get(rule),
+                reason: "bypassCheckedFirst",
+                conflictsWith: ruleSources.get(earlier).entry
+            })
+        }
+    })
+    return issues
+}
+
+/**
+ * Find proxy rules to another profile converted after a catch-all "*" rule
+ * They belonged to a different SwitchyOmega profile, here the catch-all matches first
+ */
+function findRulesAfterCatchAll(
+    rules: ProxyRule[],
+    ruleSources: Map<ProxyRule, { profileName: string; entry: string }>
+): SwitchyOmegaImportIssue[] {
+    const catchAllIndex = rules.findIndex(rule => rule.type === "wildcard" && rule.pattern === "*" && !isBypassRule(rule))
+    if (catchAllIndex === -1) {
+        return []
+    }
+    const catchAll = rules[catchAllIndex]
+    return rules
+        .slice(catchAllIndex + 1)
+        .filter(rule => !isBypassRule(rule) && rule.proxyProfileId !== catchAll.proxyProfileId)
+        .map(rule => ({
+            ...ruleSources.get(rule),
+            reason: "shadowedByCatchAll" as const,
+            conflictsWith: ruleSources.get(catchAll).profileName
+        }))
+}
+
+function convertFixedProfile(profile: OmegaProfile, issues: SwitchyOmegaImportIssue[]): ProxyProfile | null {
+    const proxy = profile.fallbackProxy || profile.proxyForHttp || profile.proxyForHttps
+    if (!proxy?.host) {
+        issues.push({ profileName: profile.name, entry: profile.profileType, reason: "unsupportedProfileType" })
+        return null
+    }
+    const scheme = (proxy.scheme || "http").toLowerCase()
+    if (!PROXY_SCHEMES.includes(scheme as (typeof PROXY_SCHEMES)[number])) {
+        issues.push({ profileName: profile.name, entry: scheme, reason: "unsupportedScheme" })
+        return null
+    }
+    const overrides = [profile.proxyForHttp, profile.proxyForHttps, profile.proxyForFtp]
+        .filter(p => p?.host && (p.host !== proxy.host || p.port !== proxy.port || p.scheme !== proxy.scheme))
+    if (overrides.length > 0) {
+        issues.push({
+            profileName: profile.name,
+            entry: `${scheme}://${proxy.host}:${proxy.port}`,
+            reason: "perProtocolProxies"
+        })
+    }
+    const auth = profile.auth?.fallbackProxy || profile.auth?.proxyForHttp || {}
+    return {
+        id: generateId(),
+        name: profile.name,
+        scheme,
+        address: proxy.host,
+        port: proxy.port || 8080,
+        username: auth.username || "",
+        password: auth.password || ""
+    }
+}
+
+function describeCondition(condition: OmegaCondition): string {
+    if (condition.conditionType === "IpCondition") {
+        return `${condition.conditionType}: ${condition.ip}/${condition.prefixLength}`
+    }
+    return `${condition.conditionType}: ${condition.pattern ?? ""}`
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+/**
+ * Convert a shell wildcard on the full URL into a regular expression
+ */
+function urlWildcardToRegex(pattern: string): string {
+    return "^" + pattern.split("*").map(part =>
+        part.split("?").map(escapeRegExp).join(".")
+    ).join(".*") + "$"
+}
+
+/**
+ * Convert a wildcard on the hostname
+ * `*.example.com` means the domain and its subdomains in SwitchyOmega
+ */
+function hostWildcardToRule(pattern: string): ConvertedPattern {
+    const value = pattern.trim()
+    const rest = value.startsWith("*.") ? value.substring(2) : value
+    if (!/[*?]/.test(rest)) {
+        return { pattern: value.startsWith("*.") ? value : rest, type: value.startsWith("*.") ? "domain" : "host" }
+    }
+    return { pattern: value, type: "wildcard" }
+}
+
+/**
+ * Convert a SwitchyOmega condition into a rule pattern and type
+ * @returns null when the condition has no equivalent
+ */
+function convertCondition(condition: OmegaCondition): ConvertedPattern | null {
+    const pattern = condition.pattern?.trim() || ""
+    switch (condition.conditionType) {
+        case "HostWildcardCondition":
+            return pattern ? hostWildcardToRule(pattern) : null
+        case "BypassCondition":
+            if (/^[\d.:[\]a-f]+\/\d+$/i.test(pattern)) {
+                return { pattern: pattern.replace(/[[\]]/g, ""), type: "cidr" }
+            }
+            return pattern && !pattern.includes("://") ? hostWildcardToRule(pattern) : null
+        case "UrlWildcardCondition":
+            return pattern ? { pattern: urlWildcardToRegex(pattern), type: "regex" } : null
+        case "UrlRegexCondition":
+            return pattern ? { pattern, type: "regex" } : null
+        case "KeywordCondition":
+            return pattern ? { pattern: escapeRegExp(pattern), type: "regex" } : null
+        case "IpCondition":
+            return condition.ip ? { pattern: `${condition.ip}/${condition.prefixLength ?? 32}`, type: "cidr" } : null
+        default:
+            return null
+    }
+}
+
+/**
+ * Parse the "Switchy" rule list format
+ * Lines live in [Wildcard] or [RegExp] sections, a leading `!` marks an exclusion
+ */
+function parseSwitchyRuleList(lines: string[]): {
+    text: string
+    exclusion: boolean
+    rule: ConvertedPattern | null
+}[] {
+    const entries = []
+    let section = "wildcard"
+    for (const rawLine of lines) {
+        const line = rawLine.trim()
+        if (!line || line.startsWith(";") || line.startsWith("#")) {
+            continue
+        }
+        const sectionMatch = line.match(/^\[(\w+)\]$/)
+        if (sectionMatch) {
+            section = sectionMatch[1].toLowerCase()
+            continue
+        }
+        const exclusion = line.startsWith("!")
+        const pattern = exclusion ? line.substring(1) : line
+        let rule: ConvertedPattern | null = null
+        if (section === "regexp") {
+            rule = { pattern, type: "regex" }
+        } else if (section === "wildcard") {
+            // "*://*.example.com/*" only looks at the host
+            const hostOnly = pattern.match(/^\*:\/\/([^/]+)\/\*$/)
+            rule = hostOnly
+                ? hostWildcardToRule(hostOnly[1])
+                : { pattern: urlWildcardToRegex(pattern), type: "regex" }
+        }
+        entries.push({ text: line, exclusion, rule })
+    }
+    return entries
+}
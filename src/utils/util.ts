@@ -7,4 +7,24 @@ export function generateId(): string {
     const timestamp = Date.now().toString(36) // 7-8 chars
     const random = Math.random().toString(36).substring(2, 5) // 3 chars
     return timestamp + random // Total: 10-11 chars
-}
\ No newline at end of file
+}
+
+/**
+ * Save text as a file through the browser's download prompt
+ * Only available in extension pages with a document
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string) {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName
+    link.click()
+    URL.revokeObjectURL(url)
+}
+
+/**
+ * Escape text for use as a literal inside a regular expression
+ */
+export function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
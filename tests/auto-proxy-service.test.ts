@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import autoProxyService from '~auto-proxy-service'
+import generalSettingsService from '~general-settings-service'
+import proxyRuleService from '~proxy-rule-service'
+import type { FailedRequest, ProxyMode } from '~types/common'
+
+const failure: FailedRequest = {
+    url: 'https://cdn.example.com/app.js',
+    hostname: '*.example.com',
+    currentTabHostname: 'site.example',
+    tabId: 1,
+    error: 'net::ERR_CONNECTION_RESET',
+    timestamp: Date.now()
+}
+
+async function enableAutoProxy(proxyMode: ProxyMode) {
+    const settings = await generalSettingsService.getSettings()
+    await generalSettingsService.saveSettings({
+        ...settings,
+        proxyEnabled: true,
+        proxyMode,
+        autoProxy: { ...settings.autoProxy, enabled: true, failureThreshold: 2 }
+    })
+}
+
+describe('AutoProxyService', () => {
+    it('adds a rule once a pattern failed often enough', async () => {
+        await enableAutoProxy('rules')
+
+        expect(await autoProxyService.handleFailure(failure)).toBeUndefined()
+        const rule = await autoProxyService.handleFailure(failure)
+
+        expect(rule).toMatchObject({ pattern: '*.example.com', origin: 'auto' })
+        expect(await proxyRuleService.getRules()).toEqual([rule])
+    })
+
+    it.each<ProxyMode>(['global', 'pac_url', 'pac_script'])('counts no failures in the %s mode', async (proxyMode) => {
+        await enableAutoProxy(proxyMode)
+
+        await autoProxyService.handleFailure(failure)
+        expect(await autoProxyService.handleFailure(failure)).toBeUndefined()
+        expect(await proxyRuleService.getRules()).toEqual([])
+    })
+})
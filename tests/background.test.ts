@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import '~background'
+import generalSettingsService from '~general-settings-service'
+import proxyProbeService from '~proxy-probe-service'
+import proxyRuleService from '~proxy-rule-service'
+import requestMonitorService from '~request-monitor-service'
+import type { FailedRequest, ProxyProfile, RequestRoute } from '~types/common'
+import { fakeChrome } from './fakes/chrome'
+
+const workProfile: ProxyProfile = {
+    id: 'work',
+    name: 'Work',
+    scheme: 'http',
+    address: 'work.proxy.example',
+    port: 8080,
+    username: '',
+    password: ''
+}
+
+// What the popup sends, the listener answers through sendResponse
+const sendMessage = <T = unknown>(message: Record<string, unknown>) => fakeChrome().runtime.sendMessage(message) as Promise<T>
+
+const getProxyConfig = async (incognito = false) => (await fakeChrome().proxy.settings.get({ incognito })).value
+
+// Listeners run on their own, fake API calls all settle within one task
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+async function enableProxy() {
+    const settings = await generalSettingsService.getSettings()
+    await generalSettingsService.saveSettings({ ...settings, proxyProfiles: [workProfile], proxyEnabled: true })
+}
+
+async function recordFailure(tabId: number, url: string, currentTabHostname: string): Promise<FailedRequest> {
+    const failedRequest: FailedRequest = {
+        url,
+        hostname: proxyRuleService.formatPattern(url),
+        currentTabHostname,
+        tabId,
+        error: 'net::ERR_CONNECTION_RESET',
+        timestamp: Date.now()
+    }
+    await requestMonitorService.addFailedRequest(failedRequest)
+    return failedRequest
+}
+
+beforeEach(() => {
+    // Probes fetch the failing hosts, see proxy-probe-service.test.ts
+    vi.spyOn(proxyProbeService, 'probeFailedRequests').mockImplementation(() => undefined)
+})
+
+afterEach(async () => {
+    // Closing the tabs drops what the monitor and the tab overrides kept in memory
+    for (const tab of await chrome.tabs.query({})) {
+        await chrome.tabs.remove(tab.id)
+    }
+    await settle()
+})
+
+describe('background messages', () => {
+    it('turns the proxy on and off', async () => {
+        await generalSettingsService.saveSettings({ ...await generalSettingsService.getSettings(), proxyProfiles: [workProfile] })
+        await proxyRuleService.addRule({ id: '1', pattern: 'example.com' })
+
+        expect(await sendMessage({ action: 'setProxyEnabled', enabled: true })).toEqual({ success: true, proxyEnabled: true })
+        expect(await sendMessage({ action: 'getProxyEnabled' })).toEqual({ proxyEnabled: true })
+        const value = await getProxyConfig()
+        expect(value.mode).toBe('pac_script')
+        expect(value.pacScript.data).toContain('PROXY work.proxy.example:8080')
+
+        expect(await sendMessage({ action: 'setProxyEnabled', enabled: false })).toEqual({ success: true, proxyEnabled: false })
+        expect((await generalSettingsService.getSettings()).proxyEnabled).toBe(false)
+        expect(await getProxyConfig()).toEqual({ mode: 'direct' })
+        expect(await getProxyConfig(true)).toEqual({ mode: 'direct' })
+    })
+
+    it('returns the failed requests of a tab or of its whole site', async () => {
+        const first = await chrome.tabs.create({ url: 'https://site.example/' })
+        const second = await chrome.tabs.create({ url: 'https://site.example/other' })
+        await enableProxy()
+        const failure = await recordFailure(first.id, 'https://cdn.example.com/app.js', 'site.example')
+        const otherFailure = await recordFailure(second.id, 'https://img.example.org/logo.png', 'site.example')
+
+        expect(await sendMessage({ action: 'getFailedRequests', tabId: first.id })).toEqual({
+            failedRequests: [failure],
+            probeResults: {}
+        })
+        const site = await sendMessage<{ failedRequests: FailedRequest[] }>({ action: 'getFailedRequests', scope: 'site', currentTabHostname: 'site.example' })
+        expect(site.failedRequests).toEqual([failure, otherFailure])
+        expect(proxyProbeService.probeFailedRequests).toHaveBeenLastCalledWith([failure, otherFailure])
+        expect(await sendMessage({ action: 'getFailedRequests' })).toEqual({ failedRequests: [], probeResults: {} })
+    })
+
+    it('clears the failed requests of a tab and its badge', async () => {
+        const tab = await chrome.tabs.create({ url: 'https://site.example/' })
+        const other = await chrome.tabs.create({ url: 'https://site.example/', active: false })
+        await enableProxy()
+        await recordFailure(tab.id, 'https://cdn.example.com/app.js', 'site.example')
+        await recordFailure(other.id, 'https://cdn.example.com/app.js', 'site.example')
+        expect(await chrome.action.getBadgeText({})).toBe('1')
+
+        expect(await sendMessage({ action: 'clearFailedRequests', tabId: tab.id })).toEqual({ success: true })
+        expect(await requestMonitorService.getFailedRequestsForTab(tab.id)).toEqual([])
+        expect(await requestMonitorService.getFailedRequestsForTab(other.id)).toHaveLength(1)
+        expect(await chrome.action.getBadgeText({})).toBe('')
+    })
+
+    it('adds proxy rules and stops suggesting their hosts', async () => {
+        const tab = await chrome.tabs.create({ url: 'https://site.example/' })
+        await enableProxy()
+        await recordFailure(tab.id, 'https://cdn.example.com/app.js', 'site.example')
+        const before = Date.now()
+
+        expect(await sendMessage({ action: 'addProxyRules', hostnames: ['*.example.com'], duration: 'hour' })).toEqual({ success: true })
+
+        const [rule] = await proxyRuleService.getRules()
+        expect(rule.pattern).toBe('*.example.com')
+        expect(rule.expiresAt).toBeGreaterThanOrEqual(before + 60 * 60 * 1000)
+        expect(await requestMonitorService.getFailedRequestsForTab(tab.id)).toEqual([])
+        expect((await getProxyConfig()).pacScript.data).toContain('example.com')
+    })
+
+    it('describes the route of a tab and of the origins it requested', async () => {
+        const tab = await chrome.tabs.create({ url: 'https://www.example.com/' })
+        await enableProxy()
+        await proxyRuleService.addRule({ id: '1', pattern: 'example.com' })
+        requestMonitorService.addRequestOrigin(tab.id, 'https://www.example.com/style.css')
+        requestMonitorService.addRequestOrigin(tab.id, 'https://fonts.example.org/font.woff2')
+
+        const response = await sendMessage<{ route?: RequestRoute; origins: unknown[] }>({ action: 'getTabRoute', tabId: tab.id })
+        expect(response.route).toMatchObject({ type: 'proxy', rule: { id: '1' }, profileName: 'Work', directive: 'PROXY work.proxy.example:8080' })
+        expect(response.origins).toEqual([{ origin: 'https://fonts.example.org', route: { type: 'direct' } }])
+
+        expect(await sendMessage({ action: 'getTabRoute', tabId: 99 })).toEqual({ route: undefined, origins: [] })
+    })
+
+    it('cycles the proxy mode with the shortcut', async () => {
+        await enableProxy()
+        const cycle = async () => {
+            fakeChrome().commands.onCommand.dispatch('cycle-proxy-mode')
+            await settle()
+            const { proxyEnabled, proxyMode } = await generalSettingsService.getSettings()
+            return proxyEnabled ? proxyMode : 'direct'
+        }
+
+        expect([await cycle(), await cycle(), await cycle()]).toEqual(['global', 'direct', 'rules'])
+
+        await generalSettingsService.saveSettings({ ...await generalSettingsService.getSettings(), proxyMode: 'pac_url', pacUrl: 'https://pac.example/proxy.pac' })
+        expect([await cycle(), await cycle(), await cycle()]).toEqual(['direct', 'pac_url', 'direct'])
+    })
+
+    it('proxies a tab until the override is turned off', async () => {
+        const tab = await chrome.tabs.create({ url: 'https://video.example/' })
+        await enableProxy()
+
+        expect(await sendMessage({ action: 'setTabProxy', tabId: tab.id, enabled: true })).toEqual({ success: false })
+        expect(await sendMessage({ action: 'setTabProxy', tabId: tab.id, enabled: true, currentTabHostname: 'video.example' })).toEqual({ success: true })
+        expect(await sendMessage({ action: 'getTabProxy', tabId: tab.id })).toEqual({ enabled: true, hosts: ['video.example'] })
+        expect((await getProxyConfig()).pacScript.data).toContain('video.example')
+
+        fakeChrome().webRequest.onBeforeRequest.dispatch({ requestId: '1', url: 'https://cdn.video.example/clip.mp4', tabId: tab.id })
+        await settle()
+        expect((await sendMessage<{ hosts: string[] }>({ action: 'getTabProxy', tabId: tab.id })).hosts).toEqual(['video.example', 'cdn.video.example'])
+
+        fakeChrome().webRequest.onErrorOccurred.dispatch({ requestId: '2', url: 'https://cdn.video.example/clip.mp4', tabId: tab.id, error: 'net::ERR_CONNECTION_RESET' })
+        await settle()
+        expect(await requestMonitorService.getFailedRequestsForTab(tab.id)).toEqual([])
+
+        expect(await sendMessage({ action: 'setTabProxy', tabId: tab.id, enabled: false })).toEqual({ success: true })
+        expect(await sendMessage({ action: 'getTabProxy', tabId: tab.id })).toEqual({ enabled: false, hosts: [] })
+        expect(await getProxyConfig()).toEqual({ mode: 'direct' })
+    })
+})
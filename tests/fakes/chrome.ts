@@ -0,0 +1,428 @@
+/**
+ * In-memory fakes of the chrome.* APIs the extension uses
+ *
+ * They keep state the way Chrome does, so services run unchanged: storage areas hold
+ * values and fire storage.onChanged, proxy.settings remembers the last value per scope,
+ * tabs keep a tab list. Events record listeners and tests fire them with dispatch().
+ * reset() clears all state but keeps listeners, modules register them once at import.
+ */
+import messages from '../../locales/en/messages.json'
+
+type Listener<Args extends unknown[]> = (...args: Args) => unknown
+
+/**
+ * Args types what dispatch() passes, listeners registered by tests get typed parameters
+ */
+export class FakeEvent<Args extends unknown[] = unknown[]> {
+    private listeners: Listener<Args>[] = []
+
+    addListener(listener: Listener<Args>) {
+        this.listeners.push(listener)
+    }
+
+    removeListener(listener: Listener<Args>) {
+        this.listeners = this.listeners.filter(l => l !== listener)
+    }
+
+    hasListener(listener: Listener<Args>): boolean {
+        return this.listeners.includes(listener)
+    }
+
+    hasListeners(): boolean {
+        return this.listeners.length > 0
+    }
+
+    /**
+     * Call every listener like Chrome would
+     * @returns What the listeners returned, e.g. true for an async onMessage response
+     */
+    dispatch(...args: Args): unknown[] {
+        return this.listeners.map(listener => listener(...args))
+    }
+}
+
+type StorageChangedEvent = FakeEvent<[Record<string, chrome.storage.StorageChange>, chrome.storage.AreaName]>
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value))
+
+// Limits of chrome.storage.sync, see https://developer.chrome.com/docs/extensions/reference/api/storage#property-sync
+const SYNC_QUOTAS = {
+    QUOTA_BYTES: 102400,
+    QUOTA_BYTES_PER_ITEM: 8192,
+    MAX_ITEMS: 512,
+    MAX_WRITE_OPERATIONS_PER_HOUR: 1800,
+    MAX_WRITE_OPERATIONS_PER_MINUTE: 120
+}
+
+export class FakeStorageArea {
+    private data: Record<string, unknown> = {}
+    // Times of recent writes, only counted for sync
+    private writes: number[] = []
+    // Tests may lower these, reset() restores Chrome's values
+    QUOTA_BYTES?: number
+    QUOTA_BYTES_PER_ITEM?: number
+    MAX_ITEMS?: number
+    MAX_WRITE_OPERATIONS_PER_HOUR?: number
+    MAX_WRITE_OPERATIONS_PER_MINUTE?: number
+
+    constructor(private areaName: chrome.storage.AreaName, private onChanged: StorageChangedEvent) {
+        if (areaName === 'sync') {
+            Object.assign(this, SYNC_QUOTAS)
+        }
+    }
+
+    async get(keys?: string | string[] | Record<string, unknown> | null): Promise<Record<string, unknown>> {
+        if (keys === undefined || keys === null) {
+            return clone(this.data)
+        }
+        const defaults: Record<string, unknown> = typeof keys === 'string'
+            ? { [keys]: undefined }
+            : Array.isArray(keys) ? Object.fromEntries(keys.map(key => [key, undefined])) : keys
+        const items: Record<string, unknown> = {}
+        for (const [key, defaultValue] of Object.entries(defaults)) {
+            const value = key in this.data ? this.data[key] : defaultValue
+            if (value !== undefined) {
+                items[key] = clone(value)
+            }
+        }
+        return items
+    }
+
+    async set(items: Record<string, unknown>) {
+        const next = { ...this.data, ...clone(items) }
+        this.checkQuota(next, Object.keys(items))
+        this.commit(next)
+    }
+
+    async remove(keys: string | string[]) {
+        const next = { ...this.data }
+        for (const key of typeof keys === 'string' ? [keys] : keys) {
+            delete next[key]
+        }
+        this.checkQuota(next, [])
+        this.commit(next)
+    }
+
+    async clear() {
+        this.checkQuota({}, [])
+        this.commit({})
+    }
+
+    async getBytesInUse(keys?: string | string[] | null): Promise<number> {
+        const names = keys === undefined || keys === null ? Object.keys(this.data) : typeof keys === 'string' ? [keys] : keys
+        return names
+            .filter(key => key in this.data)
+            .reduce((bytes, key) => bytes + this.itemBytes(key, this.data[key]), 0)
+    }
+
+    /**
+     * Drop all values between tests, like clear() but without the quotas
+     * onChanged still fires, so caches of stored values let go of them
+     */
+    reset() {
+        this.commit({})
+        this.writes = []
+        if (this.areaName === 'sync') {
+            Object.assign(this, SYNC_QUOTAS)
+        }
+    }
+
+    private itemBytes(key: string, value: unknown): number {
+        return key.length + JSON.stringify(value).length
+    }
+
+    /**
+     * Reject writes the way Chrome rejects them for sync storage, with the same messages
+     */
+    private checkQuota(next: Record<string, unknown>, writtenKeys: string[]) {
+        if (this.areaName !== 'sync') {
+            return
+        }
+        const now = Date.now()
+        this.writes = this.writes.filter(time => now - time < 60 * 60 * 1000)
+        if (this.writes.filter(time => now - time < 60 * 1000).length >= this.MAX_WRITE_OPERATIONS_PER_MINUTE) {
+            throw new Error('This request exceeds the MAX_WRITE_OPERATIONS_PER_MINUTE quota.')
+        }
+        if (this.writes.length >= this.MAX_WRITE_OPERATIONS_PER_HOUR) {
+            throw new Error('This request exceeds the MAX_WRITE_OPERATIONS_PER_HOUR quota.')
+        }
+        if (writtenKeys.some(key => this.itemBytes(key, next[key]) > this.QUOTA_BYTES_PER_ITEM)) {
+            throw new Error('QUOTA_BYTES_PER_ITEM quota exceeded')
+        }
+        if (Object.keys(next).length > this.MAX_ITEMS) {
+            throw new Error('MAX_ITEMS quota exceeded')
+        }
+        const bytes = Object.entries(next).reduce((total, [key, value]) => total + this.itemBytes(key, value), 0)
+        if (bytes > this.QUOTA_BYTES) {
+            throw new Error('QUOTA_BYTES quota exceeded')
+        }
+        this.writes.push(now)
+    }
+
+    private commit(next: Record<string, unknown>) {
+        const changes: Record<string, chrome.storage.StorageChange> = {}
+        for (const key of new Set([...Object.keys(this.data), ...Object.keys(next)])) {
+            const oldValue = this.data[key]
+            const newValue = next[key]
+            if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+                changes[key] = {
+                    ...(oldValue !== undefined && { oldValue: clone(oldValue) }),
+                    ...(newValue !== undefined && { newValue: clone(newValue) })
+                }
+            }
+        }
+        this.data = next
+        if (Object.keys(changes).length > 0) {
+            this.onChanged.dispatch(changes, this.areaName)
+        }
+    }
+}
+
+type ProxySettingScope = 'regular' | 'regular_only' | 'incognito_persistent' | 'incognito_session_only'
+
+class FakeProxySettings {
+    private values: Partial<Record<ProxySettingScope, chrome.proxy.ProxyConfig>> = {}
+    onChange = new FakeEvent()
+
+    async get(details: { incognito?: boolean } = {}) {
+        const value = (details.incognito && this.values.incognito_persistent) || this.values.regular || { mode: 'system' }
+        return { value: clone(value), levelOfControl: 'controllable_by_this_extension' }
+    }
+
+    async set(details: { value: chrome.proxy.ProxyConfig; scope?: ProxySettingScope }) {
+        this.values[details.scope || 'regular'] = clone(details.value)
+        this.onChange.dispatch({ value: clone(details.value), levelOfControl: 'controlled_by_this_extension' })
+    }
+
+    async clear(details: { scope?: ProxySettingScope } = {}) {
+        delete this.values[details.scope || 'regular']
+    }
+
+    reset() {
+        this.values = {}
+    }
+}
+
+class FakeTabs {
+    readonly TAB_ID_NONE = -1
+    private tabs: chrome.tabs.Tab[] = []
+    private nextId = 1
+    onActivated = new FakeEvent()
+    onUpdated = new FakeEvent()
+    onRemoved = new FakeEvent()
+
+    async create(properties: { url?: string; active?: boolean }): Promise<chrome.tabs.Tab> {
+        const tab = {
+            id: this.nextId++,
+            index: this.tabs.length,
+            windowId: 1,
+            url: properties.url,
+            active: properties.active !== false,
+            highlighted: false,
+            pinned: false,
+            incognito: false,
+            selected: false,
+            discarded: false,
+            autoDiscardable: true,
+            groupId: -1
+        } as chrome.tabs.Tab
+        if (tab.active) {
+            this.tabs.forEach(other => other.active = false)
+        }
+        this.tabs.push(tab)
+        return clone(tab)
+    }
+
+    async get(tabId: number): Promise<chrome.tabs.Tab> {
+        const tab = this.tabs.find(t => t.id === tabId)
+        if (!tab) {
+            throw new Error(`No tab with id: ${tabId}.`)
+        }
+        return clone(tab)
+    }
+
+    async query(queryInfo: chrome.tabs.QueryInfo = {}): Promise<chrome.tabs.Tab[]> {
+        return clone(this.tabs.filter(tab =>
+            (queryInfo.active === undefined || tab.active === queryInfo.active)
+            && (queryInfo.url === undefined || tab.url === queryInfo.url)
+        ))
+    }
+
+    async update(tabId: number, properties: { url?: string; active?: boolean }): Promise<chrome.tabs.Tab> {
+        const tab = this.tabs.find(t => t.id === tabId)
+        if (!tab) {
+            throw new Error(`No tab with id: ${tabId}.`)
+        }
+        if (properties.active) {
+            this.tabs.forEach(other => other.active = other === tab)
+            this.onActivated.dispatch({ tabId, windowId: tab.windowId })
+        }
+        if (properties.url !== undefined) {
+            tab.url = properties.url
+            this.onUpdated.dispatch(tabId, { url: properties.url }, clone(tab))
+        }
+        return clone(tab)
+    }
+
+    async reload(tabId?: number) {
+        await this.get(tabId)
+    }
+
+    async remove(tabId: number) {
+        await this.get(tabId)
+        this.tabs = this.tabs.filter(t => t.id !== tabId)
+        this.onRemoved.dispatch(tabId, { windowId: 1, isWindowClosing: false })
+    }
+
+    reset() {
+        this.tabs = []
+        this.nextId = 1
+    }
+}
+
+class FakeAlarms {
+    private alarms: Map<string, chrome.alarms.Alarm> = new Map()
+    onAlarm = new FakeEvent()
+
+    async create(name: string, info: chrome.alarms.AlarmCreateInfo) {
+        this.alarms.set(name, {
+            name,
+            scheduledTime: info.when ?? Date.now() + (info.delayInMinutes ?? info.periodInMinutes ?? 0) * 60 * 1000,
+            periodInMinutes: info.periodInMinutes
+        })
+    }
+
+    async get(name: string): Promise<chrome.alarms.Alarm | undefined> {
+        return this.alarms.get(name)
+    }
+
+    async getAll(): Promise<chrome.alarms.Alarm[]> {
+        return [...this.alarms.values()]
+    }
+
+    async clear(name: string): Promise<boolean> {
+        return this.alarms.delete(name)
+    }
+
+    async clearAll(): Promise<boolean> {
+        this.alarms.clear()
+        return true
+    }
+
+    reset() {
+        this.alarms.clear()
+    }
+}
+
+/**
+ * Build a fresh chrome namespace
+ */
+export function createChromeFake() {
+    const onChanged: StorageChangedEvent = new FakeEvent()
+    const badge = { text: '', color: '' }
+    const notifications: Map<string, chrome.notifications.NotificationOptions> = new Map()
+    const contextMenus: Map<string | number, chrome.contextMenus.CreateProperties> = new Map()
+    const onMessage = new FakeEvent()
+
+    const fake = {
+        storage: {
+            onChanged,
+            sync: new FakeStorageArea('sync', onChanged),
+            local: new FakeStorageArea('local', onChanged),
+            session: new FakeStorageArea('session', onChanged)
+        },
+        proxy: {
+            settings: new FakeProxySettings(),
+            onProxyError: new FakeEvent()
+        },
+        tabs: new FakeTabs(),
+        alarms: new FakeAlarms(),
+        webRequest: {
+            onBeforeRequest: new FakeEvent(),
+            onCompleted: new FakeEvent(),
+            onErrorOccurred: new FakeEvent(),
+            onAuthRequired: new FakeEvent()
+        },
+        webNavigation: {
+            onCommitted: new FakeEvent()
+        },
+        runtime: {
+            id: 'fake-extension-id',
+            onMessage,
+            onInstalled: new FakeEvent(),
+            onStartup: new FakeEvent(),
+            getURL: (path: string) => `chrome-extension://fake-extension-id/${path.replace(/^\//, '')}`,
+            getManifest: () => ({ manifest_version: 3, name: 'Proxy Switch Craft', version: '0.0.0', icons: { '128': 'icon128.png' } }),
+            /**
+             * Deliver a message to the onMessage listeners, as the popup or options page would
+             * Resolves with the value passed to sendResponse
+             */
+            sendMessage: (message: unknown, sender: chrome.runtime.MessageSender = { id: 'fake-extension-id' }) =>
+                new Promise(resolve => {
+                    const results = onMessage.dispatch(message, sender, resolve)
+                    if (!results.includes(true)) {
+                        resolve(undefined)
+                    }
+                })
+        },
+        action: {
+            setBadgeText: async (details: { text: string }) => { badge.text = details.text },
+            getBadgeText: async () => badge.text,
+            setBadgeBackgroundColor: async (details: { color: string }) => { badge.color = details.color },
+            getBadgeBackgroundColor: async () => badge.color
+        },
+        notifications: {
+            create: async (id: string, options: chrome.notifications.NotificationOptions) => {
+                notifications.set(id, options)
+                return id
+            },
+            clear: async (id: string) => notifications.delete(id),
+            getAll: async () => Object.fromEntries([...notifications.keys()].map(id => [id, true])),
+            onButtonClicked: new FakeEvent(),
+            onClicked: new FakeEvent(),
+            onClosed: new FakeEvent()
+        },
+        contextMenus: {
+            create: (properties: chrome.contextMenus.CreateProperties) => {
+                contextMenus.set(properties.id, properties)
+                return properties.id
+            },
+            update: async (id: string | number, properties: chrome.contextMenus.UpdateProperties) => {
+                contextMenus.set(id, { ...contextMenus.get(id), ...properties } as chrome.contextMenus.CreateProperties)
+            },
+            remove: async (id: string | number) => { contextMenus.delete(id) },
+            removeAll: async () => { contextMenus.clear() },
+            onClicked: new FakeEvent()
+        },
+        commands: {
+            onCommand: new FakeEvent()
+        },
+        i18n: {
+            getMessage: (key: string) => (messages as Record<string, { message: string }>)[key]?.message || '',
+            getUILanguage: () => 'en'
+        },
+        /**
+         * Clear the state of every API, listeners stay registered
+         */
+        reset() {
+            fake.storage.sync.reset()
+            fake.storage.local.reset()
+            fake.storage.session.reset()
+            fake.proxy.settings.reset()
+            fake.tabs.reset()
+            fake.alarms.reset()
+            badge.text = ''
+            badge.color = ''
+            notifications.clear()
+            contextMenus.clear()
+        }
+    }
+    return fake
+}
+
+export type ChromeFake = ReturnType<typeof createChromeFake>
+
+/**
+ * The fake installed as the global chrome by tests/setup.ts
+ */
+export const fakeChrome = () => globalThis.chrome as unknown as ChromeFake
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import generalSettingsService from '~general-settings-service'
+import type { GeneralSettings, ProxyProfile } from '~types/common'
+import { DEFAULT_IGNORED_ERRORS } from '~utils/error-classifier'
+import { fakeChrome } from './fakes/chrome'
+
+const profile = (id: string, address = `${id}.proxy.example`): ProxyProfile => ({
+    id,
+    name: id,
+    scheme: 'http',
+    address,
+    port: 8080,
+    username: '',
+    password: ''
+})
+
+// Plasmo storage keeps values JSON encoded
+const storeSettings = (settings: object) =>
+    fakeChrome().storage.local.set({ generalSettings: JSON.stringify(settings) })
+
+describe('GeneralSettingsService', () => {
+    it('returns the defaults when nothing is stored', async () => {
+        expect(await generalSettingsService.getSettings()).toEqual({
+            responseTimeThreshold: 5000,
+            proxyProfiles: [],
+            defaultProxyProfileId: 'default',
+            proxyEnabled: false,
+            proxyMode: 'rules',
+            pacUrl: '',
+            pacScript: '',
+            ignoredErrors: DEFAULT_IGNORED_ERRORS,
+            autoProxy: {
+                enabled: false,
+                failureThreshold: 3,
+                windowMinutes: 10,
+                excludedDomains: []
+            }
+        })
+    })
+
+    it('fills in settings missing from stored ones', async () => {
+        await storeSettings({
+            responseTimeThreshold: 3000,
+            proxyProfiles: [profile('work')],
+            proxyEnabled: 'yes',
+            autoProxy: { enabled: true }
+        })
+
+        const settings = await generalSettingsService.getSettings()
+        expect(settings.responseTimeThreshold).toBe(3000)
+        expect(settings.proxyMode).toBe('rules')
+        expect(settings.proxyEnabled).toBe(false)
+        expect(settings.autoProxy).toEqual({ enabled: true, failureThreshold: 3, windowMinutes: 10, excludedDomains: [] })
+    })
+
+    it('falls back to the first profile when the default one is gone', async () => {
+        await storeSettings({ proxyProfiles: [profile('work'), profile('home')], defaultProxyProfileId: 'deleted' })
+        expect((await generalSettingsService.getSettings()).defaultProxyProfileId).toBe('work')
+
+        await storeSettings({ proxyProfiles: [profile('work'), profile('home')], defaultProxyProfileId: 'home' })
+        expect((await generalSettingsService.getSettings()).defaultProxyProfileId).toBe('home')
+    })
+
+    it('saves settings to local storage', async () => {
+        const settings: GeneralSettings = { ...await generalSettingsService.getSettings(), proxyEnabled: true }
+        await generalSettingsService.saveSettings(settings)
+
+        expect(await generalSettingsService.getSettings()).toEqual(settings)
+        expect(await fakeChrome().storage.sync.get(null)).toEqual({})
+    })
+
+    it('migrates the legacy single proxy server into a profile', async () => {
+        await storeSettings({
+            responseTimeThreshold: 4000,
+            proxyServerAddress: '10.0.0.1',
+            proxyServerPort: 1080,
+            proxyServerScheme: 'socks5',
+            proxyUsername: 'user'
+        })
+
+        const settings = await generalSettingsService.getSettings()
+        expect(settings.proxyProfiles).toEqual([{
+            id: 'default',
+            name: 'Default',
+            scheme: 'socks5',
+            address: '10.0.0.1',
+            port: 1080,
+            username: 'user',
+            password: ''
+        }])
+        expect(settings.responseTimeThreshold).toBe(4000)
+        const stored = JSON.parse((await fakeChrome().storage.local.get('generalSettings')).generalSettings as string)
+        expect(stored).not.toHaveProperty('proxyServerAddress')
+        expect(stored.proxyProfiles).toHaveLength(1)
+    })
+
+    it('takes over fields changed in storage and keeps unsaved edits', async () => {
+        await storeSettings({ proxyProfiles: [profile('work')], proxyEnabled: true, proxyMode: 'rules' })
+        const page: GeneralSettings = { ...await generalSettingsService.getSettings(), responseTimeThreshold: 9000 }
+        const changes: chrome.storage.StorageChange[] = []
+        fakeChrome().storage.onChanged.addListener(change => changes.push(change.generalSettings))
+
+        // What the cycle-proxy-mode shortcut saves while the options page is open
+        await generalSettingsService.saveSettings({ ...await generalSettingsService.getSettings(), proxyMode: 'global' })
+        const updated = generalSettingsService.applyStorageChange(page, await generalSettingsService.getSettings(), changes[0])
+
+        expect(updated).toEqual({ ...page, proxyMode: 'global' })
+    })
+
+    it('keeps domains excluded from auto-proxy while the page edits other auto-proxy settings', async () => {
+        await storeSettings({ proxyProfiles: [profile('work')], autoProxy: { enabled: true, excludedDomains: ['a.example'] } })
+        const stored = await generalSettingsService.getSettings()
+        const page: GeneralSettings = { ...stored, autoProxy: { ...stored.autoProxy, failureThreshold: 5 } }
+        const changes: chrome.storage.StorageChange[] = []
+        fakeChrome().storage.onChanged.addListener(change => changes.push(change.generalSettings))
+
+        // What undoing an automatic rule saves
+        await generalSettingsService.saveSettings({
+            ...stored,
+            autoProxy: { ...stored.autoProxy, excludedDomains: ['a.example', 'b.example'] }
+        })
+        const updated = generalSettingsService.applyStorageChange(page, await generalSettingsService.getSettings(), changes[0])
+
+        expect(updated.autoProxy).toEqual({ ...page.autoProxy, excludedDomains: ['a.example', 'b.example'] })
+    })
+
+    it('resolves the profile of a rule', async () => {
+        await storeSettings({ proxyProfiles: [profile('work'), profile('home')], defaultProxyProfileId: 'home' })
+        const settings = await generalSettingsService.getSettings()
+
+        expect(generalSettingsService.getProfileForRule(settings, 'work')?.id).toBe('work')
+        expect(generalSettingsService.getProfileForRule(settings, 'deleted')?.id).toBe('home')
+        expect(generalSettingsService.getProfileForRule(settings)?.id).toBe('home')
+    })
+})
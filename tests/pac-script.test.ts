@@ -0,0 +1,177 @@
+import { describe, expect, it } from 'vitest'
+import generalSettingsService from '~general-settings-service'
+import proxyRuleService from '~proxy-rule-service'
+import requestMonitorService from '~request-monitor-service'
+import type { GeneralSettings, ProxyProfile, ProxyRule } from '~types/common'
+import { createPacEnvironment } from '~utils/pac-functions'
+import { findMatchingRule, getPacHost } from '~utils/rule-matcher'
+
+const profile = (id: string, overrides: Partial<ProxyProfile> = {}): ProxyProfile => ({
+    id,
+    name: id,
+    scheme: 'http',
+    address: `${id}.proxy.example`,
+    port: 8080,
+    username: '',
+    password: '',
+    ...overrides
+})
+
+const settings = (proxyProfiles: ProxyProfile[], overrides: Partial<GeneralSettings> = {}): GeneralSettings => ({
+    responseTimeThreshold: 5000,
+    proxyProfiles,
+    defaultProxyProfileId: proxyProfiles[0]?.id,
+    proxyEnabled: true,
+    proxyMode: 'rules',
+    pacUrl: '',
+    pacScript: '',
+    ignoredErrors: [],
+    autoProxy: { enabled: false, failureThreshold: 3, windowMinutes: 10, excludedDomains: [] },
+    ...overrides
+})
+
+/**
+ * Run a generated script the way the sandbox page does
+ */
+function loadPacScript(script: string): (url: string, host: string) => string {
+    const environment = createPacEnvironment()
+    const names = Object.keys(environment)
+    const load = new Function(...names, `${script}\n;return FindProxyForURL;`)
+    const findProxyForURL = load(...names.map(name => environment[name]))
+    return (url, host) => findProxyForURL(url, host)
+}
+
+function evaluate(script: string, url: string): string {
+    return loadPacScript(script)(url, getPacHost(url))
+}
+
+describe('generatePacScript', () => {
+    it('goes direct without rules', () => {
+        const script = requestMonitorService.generatePacScript(settings([profile('work')]), [])
+
+        expect(script).toBe('function FindProxyForURL(url, host) { return "DIRECT"; }')
+    })
+
+    it('sends matching hosts to the rule profile and everything else direct', () => {
+        const script = requestMonitorService.generatePacScript(
+            settings([profile('work'), profile('home', { scheme: 'socks5', port: 1080 })]),
+            [
+                { id: '1', pattern: '*.example.com' },
+                { id: '2', pattern: 'example.org', proxyProfileId: 'home' }
+            ]
+        )
+
+        expect(evaluate(script, 'https://www.example.com/')).toBe('PROXY work.proxy.example:8080')
+        expect(evaluate(script, 'https://example.org/page')).toBe('SOCKS5 home.proxy.example:1080')
+        expect(evaluate(script, 'https://example.net/')).toBe('DIRECT')
+        expect(evaluate(script, 'http://localhost:3000/')).toBe('DIRECT')
+    })
+
+    it('checks bypass rules first', () => {
+        const script = requestMonitorService.generatePacScript(settings([profile('work')]), [
+            { id: '1', pattern: '*.corp.example.com' },
+            { id: '2', pattern: 'sso.corp.example.com', type: 'host', action: 'bypass' }
+        ])
+
+        expect(evaluate(script, 'https://wiki.corp.example.com/')).toBe('PROXY work.proxy.example:8080')
+        expect(evaluate(script, 'https://sso.corp.example.com/')).toBe('DIRECT')
+    })
+
+    it('lists failover servers after the primary one', () => {
+        const script = requestMonitorService.generatePacScript(
+            settings([profile('work', {
+                fallbacks: [{ scheme: 'https', address: 'backup.example', port: 443, username: '', password: '' }],
+                fallbackToDirect: true
+            })]),
+            [{ id: '1', pattern: 'example.com' }]
+        )
+
+        expect(evaluate(script, 'https://example.com/')).toBe('PROXY work.proxy.example:8080; HTTPS backup.example:443; DIRECT')
+    })
+
+    it('leaves out proxy rules whose profile has no server', () => {
+        const script = requestMonitorService.generatePacScript(settings([profile('work', { address: '' })]), [
+            { id: '1', pattern: 'example.com' }
+        ])
+
+        expect(evaluate(script, 'https://example.com/')).toBe('DIRECT')
+    })
+
+    it('leaves out proxy rules whose servers all lack a port', () => {
+        const script = requestMonitorService.generatePacScript(
+            settings([profile('work', { port: 0, fallbacks: [{ scheme: 'http', address: 'backup.example', port: 0, username: '', password: '' }] })]),
+            [{ id: '1', pattern: 'example.com' }]
+        )
+
+        expect(script).not.toContain('return "";')
+        expect(evaluate(script, 'https://example.com/')).toBe('DIRECT')
+    })
+
+    it('uses the failover server of a profile without its own server', () => {
+        const script = requestMonitorService.generatePacScript(
+            settings([profile('work', { address: '', fallbacks: [{ scheme: 'http', address: 'backup.example', port: 3128, username: '', password: '' }] })]),
+            [{ id: '1', pattern: 'example.com' }]
+        )
+
+        expect(evaluate(script, 'https://example.com/')).toBe('PROXY backup.example:3128')
+    })
+
+    it('returns the fallback directive when no rule matches', () => {
+        const script = requestMonitorService.generatePacScript(
+            settings([profile('work')], { proxyMode: 'global' }),
+            [{ id: '1', pattern: 'intranet.example', action: 'bypass' }],
+            'PROXY work.proxy.example:8080'
+        )
+
+        expect(evaluate(script, 'https://example.com/')).toBe('PROXY work.proxy.example:8080')
+        expect(evaluate(script, 'https://intranet.example/')).toBe('DIRECT')
+    })
+
+    it('agrees with the rule matcher', () => {
+        const rules: ProxyRule[] = [
+            { id: 'domain', pattern: 'example.com' },
+            { id: 'wildcard', pattern: 'api.*.example.org' },
+            { id: 'regex', pattern: '^http://[^/]*\\.example\\.net/api/', type: 'regex' },
+            { id: 'prefix', pattern: 'http://example.io/docs/', type: 'url_prefix' },
+            { id: 'cidr', pattern: '10.0.0.0/8' },
+            { id: 'bypass', pattern: 'static.example.com', type: 'host', action: 'bypass' }
+        ]
+        const findProxyForURL = loadPacScript(requestMonitorService.generatePacScript(settings([profile('work')]), rules))
+        const urls = [
+            'https://example.com/',
+            'https://www.example.com/',
+            'https://static.example.com/',
+            'https://api.eu.example.org/',
+            'https://example.org/',
+            'http://www.example.net/api/users',
+            'http://www.example.net/home',
+            'http://example.io/docs/intro',
+            'http://example.io/blog',
+            'http://10.1.2.3/',
+            'http://192.168.1.1/'
+        ]
+
+        for (const url of urls) {
+            const rule = findMatchingRule(rules, url)
+            const expected = rule && rule.action !== 'bypass' ? 'PROXY work.proxy.example:8080' : 'DIRECT'
+            expect(findProxyForURL(url, getPacHost(url)), url).toBe(expected)
+        }
+    })
+})
+
+describe('getGeneratedPac', () => {
+    it('returns only the rules the script was generated from', async () => {
+        await generalSettingsService.saveSettings(settings([profile('work'), profile('empty', { address: '' })]))
+        await proxyRuleService.saveRules([
+            { id: 'unrouted', pattern: 'example.com', proxyProfileId: 'empty' },
+            { id: 'routed', pattern: '*.example.com' },
+            { id: 'bypass', pattern: 'example.org', action: 'bypass', proxyProfileId: 'empty' }
+        ])
+
+        const { pacScript, proxyRules } = await requestMonitorService.getGeneratedPac()
+
+        expect(proxyRules.map(rule => rule.id)).toEqual(['routed', 'bypass'])
+        expect(findMatchingRule(proxyRules, 'https://www.example.com/')?.id).toBe('routed')
+        expect(evaluate(pacScript, 'https://www.example.com/')).toBe('PROXY work.proxy.example:8080')
+    })
+})
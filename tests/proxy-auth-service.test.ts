@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from 'vitest'
+import generalSettingsService from '~general-settings-service'
+import proxyAuthService from '~proxy-auth-service'
+import type { GeneralSettings, ProxyProfile } from '~types/common'
+import { fakeChrome } from './fakes/chrome'
+
+const workProfile: ProxyProfile = {
+    id: 'work',
+    name: 'Work',
+    scheme: 'http',
+    address: 'work.proxy.example',
+    port: 8080,
+    username: 'user',
+    password: 'secret'
+}
+
+const challenge = (requestId: string) => ({
+    requestId,
+    isProxy: true,
+    challenger: { host: 'work.proxy.example', port: 8080 }
+}) as chrome.webRequest.WebAuthenticationChallengeDetails
+
+async function saveSettings(changes: Partial<GeneralSettings>): Promise<chrome.storage.StorageChange> {
+    const recorded: chrome.storage.StorageChange[] = []
+    const listener = (change: Record<string, chrome.storage.StorageChange>) => recorded.push(change.generalSettings)
+    fakeChrome().storage.onChanged.addListener(listener)
+    await generalSettingsService.saveSettings({ ...await generalSettingsService.getSettings(), ...changes })
+    fakeChrome().storage.onChanged.removeListener(listener)
+    return recorded[0]
+}
+
+async function rejectCredentials() {
+    expect(await proxyAuthService.handleAuthRequired(challenge('1'))).toEqual({
+        authCredentials: { username: 'user', password: 'secret' }
+    })
+    expect(await proxyAuthService.handleAuthRequired(challenge('1'))).toEqual({ cancel: true })
+}
+
+describe('ProxyAuthService', () => {
+    it('records rejected credentials in session storage', async () => {
+        await saveSettings({ proxyProfiles: [workProfile], proxyEnabled: true })
+
+        await rejectCredentials()
+
+        expect(await proxyAuthService.getFailures()).toMatchObject([{ profileId: 'work', host: 'work.proxy.example', port: 8080, username: 'user' }])
+        const stored = JSON.parse((await fakeChrome().storage.session.get('proxyAuthState')).proxyAuthState as string)
+        expect(Object.keys(stored.failures)).toEqual(['work.proxy.example:8080'])
+        expect(await proxyAuthService.handleAuthRequired(challenge('2'))).toEqual({ cancel: true })
+    })
+
+    it('clears a failure when the server accepts the credentials', async () => {
+        await saveSettings({ proxyProfiles: [workProfile], proxyEnabled: true })
+        await rejectCredentials()
+        await proxyAuthService.completeRequest('1', false)
+        await proxyAuthService.completeRequest('unrelated', true)
+        expect(await proxyAuthService.getFailures()).toHaveLength(1)
+
+        // Tried again once the cooldown is over
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 61 * 1000)
+        expect(await proxyAuthService.handleAuthRequired(challenge('2'))).toHaveProperty('authCredentials')
+        await proxyAuthService.completeRequest('2', true)
+        expect(await proxyAuthService.getFailures()).toEqual([])
+    })
+
+    it('keeps failures until the credentials of their profile change', async () => {
+        await saveSettings({ proxyProfiles: [workProfile], proxyEnabled: true })
+        await rejectCredentials()
+
+        await proxyAuthService.handleSettingsChange(await saveSettings({ proxyMode: 'global' }))
+        await proxyAuthService.handleSettingsChange(await saveSettings({ proxyProfiles: [{ ...workProfile, name: 'Office' }] }))
+        expect(await proxyAuthService.getFailures()).toHaveLength(1)
+
+        await proxyAuthService.handleSettingsChange(await saveSettings({ proxyProfiles: [{ ...workProfile, password: 'fixed' }] }))
+        expect(await proxyAuthService.getFailures()).toEqual([])
+    })
+})
@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import generalSettingsService from '~general-settings-service'
+import proxyProbeService from '~proxy-probe-service'
+import requestMonitorService from '~request-monitor-service'
+import proxyRuleService from '~proxy-rule-service'
+import type { FailedRequest, RequestRoute } from '~types/common'
+
+const failure = (hostname: string): FailedRequest => ({
+    url: `https://${hostname}/app.js`,
+    hostname,
+    currentTabHostname: 'site.example',
+    tabId: 1,
+    error: 'net::ERR_CONNECTION_RESET',
+    timestamp: Date.now()
+})
+
+beforeEach(async () => {
+    const settings = await generalSettingsService.getSettings()
+    await generalSettingsService.saveSettings({
+        ...settings,
+        proxyEnabled: true,
+        proxyProfiles: [{ id: 'work', name: 'Work', scheme: 'http', address: 'work.proxy.example', port: 8080, username: '', password: '' }]
+    })
+})
+
+describe('ProxyProbeService', () => {
+    it('leaves the proxy alone when the direct attempt works', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(null))
+        vi.stubGlobal('fetch', fetch)
+        const setProbeUrls = vi.spyOn(requestMonitorService, 'setProbeUrls')
+
+        expect(await proxyProbeService.probeFailedRequest(failure('direct.example'))).toMatchObject({ status: 'directWorks' })
+        expect(fetch).toHaveBeenCalledTimes(1)
+        expect(setProbeUrls).not.toHaveBeenCalled()
+    })
+
+    it('routes the host through the proxy when the direct attempt fails', async () => {
+        const fetch = vi.fn()
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockResolvedValueOnce(new Response(null))
+        vi.stubGlobal('fetch', fetch)
+        const setProbeUrls = vi.spyOn(requestMonitorService, 'setProbeUrls')
+
+        expect(await proxyProbeService.probeFailedRequest(failure('blocked.example'))).toMatchObject({ status: 'proxyFixes' })
+        const [[[probeUrl]], [cleared]] = setProbeUrls.mock.calls
+        expect(probeUrl).toMatch(/^https:\/\/blocked\.example\/\?proxy-switch-craft-probe=\d+$/)
+        expect(fetch).toHaveBeenLastCalledWith(probeUrl, expect.anything())
+        expect(cleared).toEqual([])
+        expect(await proxyProbeService.getResults()).toHaveProperty(['blocked.example'])
+    })
+
+    it('proxies only the probe URL of http hosts', async () => {
+        await proxyRuleService.addRule({ id: '1', pattern: 'example.org' })
+        // Past the spacing after the previous proxied attempt
+        vi.spyOn(Date, 'now').mockReturnValue(Date.now() + 60 * 1000)
+        let routes: RequestRoute[] = []
+        vi.stubGlobal('fetch', vi.fn()
+            .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+            .mockImplementationOnce(async (url: string) => {
+                routes = await requestMonitorService.getRoutes([url, 'http://plain.example/page', 'http://plain.example/'])
+                return new Response(null)
+            }))
+
+        await proxyProbeService.probeFailedRequest({ ...failure('plain.example'), url: 'http://plain.example/app.js' })
+
+        expect(routes.map(route => route.type)).toEqual(['proxy', 'direct', 'direct'])
+        expect(await requestMonitorService.getRoutes(['http://plain.example/'])).toEqual([{ type: 'direct' }])
+    })
+
+    it('reuses recent results unless asked to check again', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(null))
+        vi.stubGlobal('fetch', fetch)
+
+        await proxyProbeService.probeFailedRequest(failure('cached.example'))
+        await proxyProbeService.probeFailedRequest(failure('cached.example'))
+        expect(fetch).toHaveBeenCalledTimes(1)
+
+        await proxyProbeService.probeFailedRequest(failure('cached.example'), true)
+        expect(fetch).toHaveBeenCalledTimes(2)
+    })
+
+    it('only probes in the rules mode', async () => {
+        const fetch = vi.fn().mockResolvedValue(new Response(null))
+        vi.stubGlobal('fetch', fetch)
+        await generalSettingsService.saveSettings({ ...await generalSettingsService.getSettings(), proxyMode: 'global' })
+
+        expect(await proxyProbeService.probeFailedRequest(failure('global.example'))).toBeUndefined()
+        expect(fetch).not.toHaveBeenCalled()
+    })
+})
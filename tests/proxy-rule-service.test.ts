@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import proxyRuleService from '~proxy-rule-service'
+import subscriptionService from '~subscription-service'
+import type { ProxyRule } from '~types/common'
+import { fakeChrome } from './fakes/chrome'
+
+const rule = (id: string, pattern: string, extra: Partial<ProxyRule> = {}): ProxyRule => ({ id, pattern, ...extra })
+
+describe('formatPattern', () => {
+    it('covers the parent domain by default', () => {
+        expect(proxyRuleService.formatPattern('https://www.example.com/path')).toBe('*.example.com')
+        expect(proxyRuleService.formatPattern('https://a.b.example.com/')).toBe('*.b.example.com')
+    })
+
+    it('keeps short hosts and IP addresses as they are', () => {
+        expect(proxyRuleService.formatPattern('https://example.com/')).toBe('example.com')
+        expect(proxyRuleService.formatPattern('http://10.0.0.1:8080/')).toBe('10.0.0.1')
+        expect(proxyRuleService.formatPattern('http://[fd00::1]/')).toBe('[fd00::1]')
+    })
+
+    it('follows the granularity', () => {
+        expect(proxyRuleService.formatPattern('https://a.b.example.com/', 'host')).toBe('a.b.example.com')
+        expect(proxyRuleService.formatPattern('https://a.b.example.com/', 'domain')).toBe('example.com')
+    })
+
+    it('stops at the registrable domain of country code domains', () => {
+        expect(proxyRuleService.formatPattern('https://www.sina.com.cn/', 'domain')).toBe('sina.com.cn')
+        expect(proxyRuleService.formatPattern('https://news.www.bbc.co.uk/', 'domain')).toBe('bbc.co.uk')
+        expect(proxyRuleService.formatPattern('https://www.bbc.co.uk/')).toBe('*.bbc.co.uk')
+        expect(proxyRuleService.formatPattern('https://bbc.co.uk/')).toBe('bbc.co.uk')
+        expect(proxyRuleService.formatPattern('https://www.example.de/', 'domain')).toBe('example.de')
+    })
+})
+
+describe('ProxyRuleService', () => {
+    it('adds rules once per pattern', async () => {
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+        await proxyRuleService.addRule(rule('2', 'example.com'))
+        await proxyRuleService.addRules([rule('3', 'example.com'), rule('4', 'example.org')])
+
+        expect((await proxyRuleService.getRules()).map(r => r.id)).toEqual(['1', '4'])
+    })
+
+    it('updates a rule without changing its id', async () => {
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+
+        expect(await proxyRuleService.updateProxyRule('1', { id: '2', action: 'bypass' })).toBe(true)
+        expect(await proxyRuleService.updateProxyRule('missing', { action: 'bypass' })).toBe(false)
+        expect(await proxyRuleService.getRules()).toEqual([rule('1', 'example.com', { action: 'bypass' })])
+    })
+
+    it('deletes rules by id', async () => {
+        await proxyRuleService.addRules([rule('1', 'example.com'), rule('2', 'example.org')])
+
+        expect(await proxyRuleService.deleteRule('1')).toEqual([rule('2', 'example.org')])
+        expect(await proxyRuleService.getRules()).toEqual([rule('2', 'example.org')])
+    })
+
+    it('merges imports, skipping known patterns and renaming colliding ids', async () => {
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+
+        const result = await proxyRuleService.importRules([
+            rule('1', 'example.org'),
+            rule('2', 'example.com'),
+            rule('3', 'example.net'),
+            rule('4', 'example.net')
+        ], 'merge')
+
+        const rules = await proxyRuleService.getRules()
+        expect(result).toEqual({ added: 2, skipped: 2 })
+        expect(rules.map(r => r.pattern)).toEqual(['example.com', 'example.org', 'example.net'])
+        expect(new Set(rules.map(r => r.id)).size).toBe(3)
+    })
+
+    it('replaces all rules on a replacing import', async () => {
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+
+        expect(await proxyRuleService.importRules([rule('2', 'example.org')], 'replace')).toEqual({ added: 1, skipped: 0 })
+        expect(await proxyRuleService.getRules()).toEqual([rule('2', 'example.org')])
+    })
+
+    it('saves nothing when an import does not fit', async () => {
+        // Far more than sync storage holds, to reach the count limit
+        fakeChrome().storage.sync.QUOTA_BYTES = 1024 * 1024
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+        const rules = Array.from({ length: 5200 }, (_, i) => rule(`r${i}`, `host${i}.example.org`))
+
+        await expect(proxyRuleService.checkImportCapacity(rules, 'replace')).rejects.toMatchObject({ limit: 'count', size: 5200 })
+        await expect(proxyRuleService.importRules(rules, 'replace')).rejects.toMatchObject({ limit: 'count' })
+        await expect(proxyRuleService.checkImportCapacity(rules.slice(0, 4999), 'merge')).resolves.toBeUndefined()
+        await expect(proxyRuleService.checkImportCapacity(rules.slice(0, 5000), 'merge')).rejects.toMatchObject({ size: 5001 })
+        expect(await proxyRuleService.getRules()).toEqual([rule('1', 'example.com')])
+    })
+
+    it('matches bypass rules before proxy rules', async () => {
+        await proxyRuleService.addRules([
+            rule('1', '*.corp.example.com'),
+            rule('2', 'sso.corp.example.com', { type: 'host', action: 'bypass' })
+        ])
+
+        expect(await proxyRuleService.isInRules('https://wiki.corp.example.com/')).toBe(true)
+        expect(await proxyRuleService.isInRules('https://sso.corp.example.com/')).toBe(false)
+        expect((await proxyRuleService.findMatchingRule('https://sso.corp.example.com/'))?.id).toBe('2')
+        expect(await proxyRuleService.findMatchingRule('https://example.org/')).toBeUndefined()
+    })
+
+    it('adds and removes the rule of a URL', async () => {
+        expect(await proxyRuleService.addRuleForUrl('https://www.example.com/', 'parent', 'proxy')).toBe('*.example.com')
+        expect(await proxyRuleService.addRuleForUrl('https://www.example.com/', 'parent', 'bypass')).toBe('*.example.com')
+        expect(await proxyRuleService.getRules()).toMatchObject([{ pattern: '*.example.com', action: 'bypass' }])
+
+        expect((await proxyRuleService.removeRuleForUrl('https://api.example.com/'))?.pattern).toBe('*.example.com')
+        expect(await proxyRuleService.getRules()).toEqual([])
+        expect(await proxyRuleService.removeRuleForUrl('https://api.example.com/')).toBeUndefined()
+    })
+
+    it('routes with subscription rules after the user rules', async () => {
+        await proxyRuleService.addRule(rule('1', 'example.com'))
+        await subscriptionService.saveSubscriptions([
+            { id: 'list', name: 'List', url: 'https://lists.example/list.txt', format: 'text', refreshIntervalMinutes: 60, enabled: true, proxyProfileId: 'work', ruleCount: 1 }
+        ])
+        await fakeChrome().storage.local.set({ subscriptionRules_list: JSON.stringify([rule('s1', 'example.org')]) })
+
+        expect(await proxyRuleService.getEffectiveRules()).toEqual([
+            rule('1', 'example.com'),
+            rule('s1', 'example.org', { proxyProfileId: 'work' })
+        ])
+        expect(await proxyRuleService.getRules()).toEqual([rule('1', 'example.com')])
+    })
+})
+
+describe('temporary rules', () => {
+    const past = Date.now() - 1000
+    const soon = Date.now() + 60 * 1000
+    const later = Date.now() + 60 * 60 * 1000
+
+    it('leaves expired rules out of routing', async () => {
+        await proxyRuleService.addRules([rule('1', 'example.com', { expiresAt: past }), rule('2', 'example.org', { expiresAt: soon })])
+
+        expect((await proxyRuleService.getEffectiveRules()).map(r => r.id)).toEqual(['2'])
+        expect(await proxyRuleService.isInRules('https://example.com/')).toBe(false)
+    })
+
+    it('schedules the alarm at the earliest expiry', async () => {
+        await proxyRuleService.addRules([rule('1', 'example.com', { expiresAt: later }), rule('2', 'example.org', { expiresAt: soon })])
+        await proxyRuleService.syncExpiryAlarm()
+
+        expect((await chrome.alarms.get('ruleExpiry'))?.scheduledTime).toBe(soon)
+
+        await proxyRuleService.saveRules([rule('3', 'example.net')])
+        await proxyRuleService.syncExpiryAlarm()
+
+        expect(await chrome.alarms.get('ruleExpiry')).toBeUndefined()
+    })
+
+    it('removes expired rules when the alarm fires', async () => {
+        await proxyRuleService.addRules([rule('1', 'example.com', { expiresAt: past }), rule('2', 'example.org', { expiresAt: later })])
+
+        expect(await proxyRuleService.handleAlarm({ name: 'subscription:list', scheduledTime: past })).toBe(false)
+        expect(await proxyRuleService.getRules()).toHaveLength(2)
+
+        expect(await proxyRuleService.handleAlarm({ name: 'ruleExpiry', scheduledTime: past })).toBe(true)
+        expect((await proxyRuleService.getRules()).map(r => r.id)).toEqual(['2'])
+        expect((await chrome.alarms.get('ruleExpiry'))?.scheduledTime).toBe(later)
+    })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import type { ProxyRule } from '~types/common'
+import { exportRulesAsJson, parseRulesJson } from '~utils/rule-transfer'
+
+describe('JSON rule export', () => {
+    it('keeps every rule field through an export and import', () => {
+        const rules: ProxyRule[] = [
+            { id: '1', pattern: 'example.com', proxyProfileId: 'work' },
+            { id: '2', pattern: 'sso.example.com', type: 'host', action: 'bypass' },
+            { id: '3', pattern: '*.example.org', origin: 'auto', createdAt: 1700000000000 },
+            { id: '4', pattern: 'example.net', createdAt: 1700000000000, expiresAt: Date.now() + 60 * 60 * 1000 }
+        ]
+
+        expect(parseRulesJson(exportRulesAsJson(rules))).toEqual({ rules, invalid: [] })
+    })
+
+    it('leaves out rules that expired since the export', () => {
+        const json = exportRulesAsJson([
+            { id: '1', pattern: 'example.com', expiresAt: Date.now() - 1000 },
+            { id: '2', pattern: 'example.org' }
+        ])
+
+        expect(parseRulesJson(json).rules).toEqual([{ id: '2', pattern: 'example.org' }])
+    })
+
+    it('drops malformed metadata', () => {
+        const json = JSON.stringify([{ id: '1', pattern: 'example.com', origin: 'other', createdAt: 'yesterday', expiresAt: null }])
+
+        expect(parseRulesJson(json).rules).toEqual([{ id: '1', pattern: 'example.com' }])
+    })
+})
@@ -0,0 +1,10 @@
+import { beforeEach } from 'vitest'
+import { createChromeFake } from './fakes/chrome'
+
+// Installed before any test imports the extension, storage instances are created at import
+const chromeFake = createChromeFake()
+globalThis.chrome = chromeFake as unknown as typeof chrome
+
+beforeEach(() => {
+    chromeFake.reset()
+})
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ProxyRule } from '~types/common'
+import { getProxyRules, RuleStorageLimitError, saveProxyRules } from '~utils/storage'
+import { fakeChrome } from './fakes/chrome'
+
+const makeRules = (count: number): ProxyRule[] =>
+    Array.from({ length: count }, (_, i) => ({ id: `r${i}`, pattern: `host${i}.example.com` }))
+
+// Plasmo storage keeps values JSON encoded
+const readRaw = async (key: string) => {
+    const items = await fakeChrome().storage.sync.get(key)
+    return items[key] === undefined ? undefined : JSON.parse(items[key] as string)
+}
+
+describe('saveProxyRules', () => {
+    it('stores 100 rules per key', async () => {
+        await saveProxyRules(makeRules(250))
+
+        expect(await readRaw('proxyRules_0')).toHaveLength(100)
+        expect(await readRaw('proxyRules_1')).toHaveLength(100)
+        expect(await readRaw('proxyRules_2')).toHaveLength(50)
+        expect(await readRaw('proxyRules_3')).toBeUndefined()
+    })
+
+    it('removes chunks that are no longer needed', async () => {
+        await saveProxyRules(makeRules(250))
+        await saveProxyRules(makeRules(30))
+
+        expect(await readRaw('proxyRules_0')).toHaveLength(30)
+        expect(await readRaw('proxyRules_1')).toBeUndefined()
+        expect(await readRaw('proxyRules_2')).toBeUndefined()
+    })
+
+    it('rejects more rules than the chunks can hold', async () => {
+        await saveProxyRules(makeRules(10))
+
+        await expect(saveProxyRules(makeRules(5001))).rejects.toMatchObject({ limit: 'count', size: 5001, max: 5000 })
+        expect(await getProxyRules()).toEqual(makeRules(10))
+    })
+
+    it('rejects chunks larger than a sync item before writing any', async () => {
+        await saveProxyRules(makeRules(10))
+        const regexRules = Array.from({ length: 300 }, (_, i): ProxyRule => ({
+            id: `regex${i}`,
+            pattern: `^https?:\\/\\/([^/]+\\.)?blocked-site-number-${i}\\.example\\.com\\/`,
+            type: 'regex'
+        }))
+
+        const error = await saveProxyRules(regexRules).catch(e => e)
+
+        expect(error).toBeInstanceOf(RuleStorageLimitError)
+        expect(error).toMatchObject({ limit: 'itemBytes', max: 8192 })
+        expect(await getProxyRules()).toEqual(makeRules(10))
+    })
+
+    it('rejects rules exceeding what is left of the sync quota', async () => {
+        await fakeChrome().storage.sync.set(Object.fromEntries(
+            Array.from({ length: 12 }, (_, i) => [`other${i}`, 'x'.repeat(8000)])
+        ))
+
+        await expect(saveProxyRules(makeRules(250))).rejects.toMatchObject({ limit: 'totalBytes' })
+        expect(await readRaw('proxyRules_0')).toBeUndefined()
+    })
+
+    it('writes all chunks in one call', async () => {
+        await saveProxyRules(makeRules(250))
+        const set = vi.spyOn(fakeChrome().storage.sync, 'set')
+        vi.spyOn(fakeChrome().storage.sync, 'remove').mockRejectedValueOnce(new Error('Storage unavailable'))
+
+        await expect(saveProxyRules(makeRules(130))).rejects.toThrow('Storage unavailable')
+
+        expect(set).toHaveBeenCalledTimes(1)
+        expect(Object.keys(set.mock.calls[0][0])).toEqual(['proxyRules_0', 'proxyRules_1', 'proxyRules_2'])
+        expect(await getProxyRules()).toEqual(makeRules(130))
+    })
+
+    it('rethrows sync quota errors', async () => {
+        fakeChrome().storage.sync.MAX_WRITE_OPERATIONS_PER_MINUTE = 2
+        await saveProxyRules(makeRules(1))
+        await saveProxyRules(makeRules(2))
+
+        await expect(saveProxyRules(makeRules(3))).rejects.toThrow('MAX_WRITE_OPERATIONS_PER_MINUTE')
+        expect(await readRaw('proxyRules_0')).toHaveLength(2)
+    })
+})
+
+describe('getProxyRules', () => {
+    it('reads the chunks in order', async () => {
+        const rules = makeRules(230)
+        await saveProxyRules(rules)
+
+        expect(await getProxyRules()).toEqual(rules)
+    })
+
+    it('stops at the first missing chunk', async () => {
+        await fakeChrome().storage.sync.set({
+            proxyRules_0: JSON.stringify(makeRules(2)),
+            proxyRules_2: JSON.stringify(makeRules(3))
+        })
+
+        expect(await getProxyRules()).toHaveLength(2)
+    })
+
+    it('migrates rules from the legacy single key', async () => {
+        const rules = makeRules(120)
+        await fakeChrome().storage.sync.set({ proxyRules: JSON.stringify(rules) })
+
+        expect(await getProxyRules()).toEqual(rules)
+        expect(await readRaw('proxyRules')).toBeUndefined()
+        expect(await readRaw('proxyRules_0')).toHaveLength(100)
+        expect(await readRaw('proxyRules_1')).toHaveLength(20)
+        expect(await getProxyRules()).toEqual(rules)
+    })
+
+    it('returns no rules when storage fails', async () => {
+        vi.spyOn(fakeChrome().storage.sync, 'get').mockRejectedValueOnce(new Error('Storage unavailable'))
+
+        expect(await getProxyRules()).toEqual([])
+    })
+})
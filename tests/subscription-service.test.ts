@@ -0,0 +1,127 @@
+import { readFile } from 'node:fs/promises'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import subscriptionService from '~subscription-service'
+import type { RuleSubscription, RuleSubscriptionFormat } from '~types/common'
+
+const FIXTURES = new URL('./fixtures/subscriptions/', import.meta.url)
+
+// Serves the fixture lists, or fails every request while `failWith` is set
+let server: Server
+let baseUrl: string
+let failWith: number | undefined
+
+beforeAll(async () => {
+    server = createServer(async (request, response) => {
+        if (failWith) {
+            response.writeHead(failWith).end()
+            return
+        }
+        try {
+            const body = await readFile(new URL(`.${request.url}`, FIXTURES))
+            response.writeHead(200, { 'Content-Type': 'text/plain' }).end(body)
+        } catch {
+            response.writeHead(404).end()
+        }
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+})
+
+afterAll(async () => {
+    await new Promise(resolve => server.close(resolve))
+})
+
+beforeEach(() => {
+    failWith = undefined
+})
+
+async function subscribe(file: string, format: RuleSubscriptionFormat): Promise<RuleSubscription> {
+    const subscription: RuleSubscription = {
+        id: 'list',
+        name: 'Fixture list',
+        url: `${baseUrl}/${file}`,
+        format,
+        refreshIntervalMinutes: 60,
+        enabled: true,
+        proxyProfileId: 'work',
+        ruleCount: 0
+    }
+    await subscriptionService.addSubscription(subscription)
+    return subscription
+}
+
+describe('SubscriptionService', () => {
+    it('fetches a plain text list', async () => {
+        await subscribe('rules.txt', 'text')
+
+        const subscription = await subscriptionService.refreshSubscription('list')
+
+        expect(subscription).toMatchObject({ ruleCount: 4, invalidCount: 1, lastError: undefined })
+        expect(subscription.lastSuccessTime).toBe(subscription.lastFetchTime)
+        expect((await subscriptionService.getSubscriptionRules('list')).map(rule => rule.pattern)).toEqual([
+            'example.com',
+            '*.example.org',
+            'direct.example.com',
+            '^https?:\\/\\/api\\.example\\.net\\/'
+        ])
+        expect(await subscriptionService.getSubscriptions()).toEqual([subscription])
+    })
+
+    it('fetches an AutoProxy list', async () => {
+        await subscribe('gfwlist.txt', 'autoproxy')
+
+        expect(await subscriptionService.refreshSubscription('list')).toMatchObject({ ruleCount: 3, invalidCount: 0 })
+        expect(await subscriptionService.getSubscriptionRules('list')).toMatchObject([
+            { pattern: 'example.com', type: 'domain' },
+            { pattern: 'http://example.org/', type: 'url_prefix' },
+            { pattern: 'direct.example.com', action: 'bypass' }
+        ])
+    })
+
+    it('fetches a JSON list and routes it through the subscription profile', async () => {
+        await subscribe('rules.json', 'json')
+
+        expect(await subscriptionService.refreshSubscription('list')).toMatchObject({ ruleCount: 3, invalidCount: 0 })
+        expect(await subscriptionService.getSubscriptionRules('list')).toEqual([
+            { id: 'list_a', pattern: 'example.com', subscriptionId: 'list' },
+            { id: 'list_b', pattern: 'direct.example.com', type: 'host', action: 'bypass', subscriptionId: 'list' },
+            { id: 'list_c', pattern: 'example.net', subscriptionId: 'list' }
+        ])
+        expect(await subscriptionService.getAllSubscriptionRules()).toMatchObject([
+            { id: 'list_a', proxyProfileId: 'work' },
+            { id: 'list_b', action: 'bypass' },
+            { id: 'list_c', proxyProfileId: 'work' }
+        ])
+    })
+
+    it('keeps the previous rules when a refresh fails', async () => {
+        await subscribe('rules.json', 'json')
+        const fetched = await subscriptionService.refreshSubscription('list')
+        const rules = await subscriptionService.getSubscriptionRules('list')
+        failWith = 503
+
+        const failed = await subscriptionService.refreshSubscription('list')
+
+        expect(failed.lastError).toBe('HTTP 503 Service Unavailable')
+        expect(failed.ruleCount).toBe(3)
+        expect(failed.lastSuccessTime).toBe(fetched.lastSuccessTime)
+        expect(failed.lastFetchTime).toBeGreaterThanOrEqual(fetched.lastFetchTime)
+        expect(await subscriptionService.getSubscriptionRules('list')).toEqual(rules)
+        expect(await subscriptionService.getSubscriptions()).toEqual([failed])
+
+        failWith = undefined
+        expect(await subscriptionService.refreshSubscription('list')).toMatchObject({ lastError: undefined, ruleCount: 3 })
+    })
+
+    it('records a missing list as an error', async () => {
+        await subscribe('missing.txt', 'text')
+
+        expect(await subscriptionService.refreshSubscription('list')).toMatchObject({
+            lastError: 'HTTP 404 Not Found',
+            ruleCount: 0
+        })
+        expect(await subscriptionService.getSubscriptionRules('list')).toEqual([])
+    })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { parseSwitchyOmegaBackup } from '~utils/switchy-omega'
+
+const backup = (profiles: object[]) =>
+    JSON.stringify(Object.fromEntries(profiles.map((profile: { name: string }) => [`+${profile.name}`, profile])))
+
+const fixedProfile = (name: string, host: string) => ({
+    name,
+    profileType: 'FixedProfile',
+    fallbackProxy: { scheme: 'http', host, port: 8080 },
+    bypassList: []
+})
+
+const condition = (pattern: string, conditionType = 'HostWildcardCondition') => ({ conditionType, pattern })
+
+describe('parseSwitchyOmegaBackup', () => {
+    it('converts switch rules in order', () => {
+        const result = parseSwitchyOmegaBackup(backup([
+            fixedProfile('work', 'work.proxy.example'),
+            {
+                name: 'auto',
+                profileType: 'SwitchProfile',
+                rules: [
+                    { condition: condition('*.example.com'), profileName: 'work' },
+                    { condition: condition('intranet.example'), profileName: 'direct' }
+                ],
+                defaultProfileName: 'direct'
+            }
+        ]))
+
+        expect(result.proxyProfiles).toMatchObject([{ name: 'work', address: 'work.proxy.example' }])
+        expect(result.proxyRules).toMatchObject([
+            { pattern: '*.example.com', type: 'domain', proxyProfileId: result.proxyProfiles[0].id },
+            { pattern: 'intranet.example', type: 'host', action: 'bypass' }
+        ])
+        expect(result.issues).toEqual([])
+    })
+
+    it('reports bypass rules that now win over an earlier proxy rule', () => {
+        const result = parseSwitchyOmegaBackup(backup([
+            fixedProfile('work', 'work.proxy.example'),
+            {
+                name: 'auto',
+                profileType: 'SwitchProfile',
+                rules: [
+                    { condition: condition('api.example.com'), profileName: 'work' },
+                    { condition: condition('*.example.com'), profileName: 'direct' },
+                    { condition: condition('example.org'), profileName: 'direct' }
+                ]
+            }
+        ]))
+
+        expect(result.proxyRules).toHaveLength(3)
+        expect(result.issues).toEqual([{
+            profileName: 'auto',
+            entry: 'HostWildcardCondition: *.example.com',
+            reason: 'bypassCheckedFirst',
+            conflictsWith: 'HostWildcardCondition: api.example.com'
+        }])
+    })
+
+    it('reports proxy rules converted after a catch-all rule', () => {
+        const result = parseSwitchyOmegaBackup(backup([
+            fixedProfile('work', 'work.proxy.example'),
+            fixedProfile('home', 'home.proxy.example'),
+            { name: 'first', profileType: 'SwitchProfile', rules: [], defaultProfileName: 'work' },
+            {
+                name: 'second',
+                profileType: 'SwitchProfile',
+                rules: [
+                    { condition: condition('example.org'), profileName: 'home' },
+                    { condition: condition('example.net'), profileName: 'work' }
+                ]
+            }
+        ]))
+
+        expect(result.proxyRules.map(rule => rule.pattern)).toEqual(['*', 'example.org', 'example.net'])
+        expect(result.issues).toEqual([
+            { profileName: 'first', entry: 'work', reason: 'defaultProfileCatchAll' },
+            { profileName: 'second', entry: 'HostWildcardCondition: example.org', reason: 'shadowedByCatchAll', conflictsWith: 'first' }
+        ])
+    })
+})
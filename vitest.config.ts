@@ -0,0 +1,16 @@
+import { fileURLToPath } from 'node:url'
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+    resolve: {
+        alias: [{ find: /^~/, replacement: fileURLToPath(new URL('./src/', import.meta.url)) }]
+    },
+    test: {
+        environment: 'node',
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
+        restoreMocks: true,
+        unstubGlobals: true,
+        silent: 'passed-only'
+    }
+})